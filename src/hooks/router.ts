@@ -1,6 +1,8 @@
 import { useCallback, useMemo } from 'react'
 import { type NavigateOptions, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 
+import { serializeParams, type TParamsSerializer, type TQueryParams } from '@/utils/serializer'
+
 /**
  * Represents the query string parameters of a URL.
  *
@@ -13,6 +15,18 @@ export type TRouterQuery = {
   [key: string]: string | string[]
 }
 
+/**
+ * Options shared by the router hooks.
+ */
+export type TRouterOptions = {
+  /**
+   * Serialization of the query objects passed to the navigation helpers, e.g. the same `paramsSerializer`
+   * as the API instance so generated URLs match what the backend parses.
+   * Keep it stable (defined outside the component) to avoid recreating the helpers on every render.
+   */
+  paramsSerializer?: TParamsSerializer
+}
+
 /**
  * Represents the state of the router navigation.
  */
@@ -39,7 +53,7 @@ export interface IRouterPush {
    * @param url - Destination path, e.g. "/dashboard"
    * @param options - Additional navigation options (`replace`, `state`, etc.)
    */
-  (url: string | { pathname: string; query?: TRouterQuery; hash?: string }, options?: NavigateOptions): void
+  (url: string | { pathname: string; query?: TQueryParams; hash?: string }, options?: NavigateOptions): void
 
   /**
    * Navigate using an object with query parameters and hash.
@@ -47,7 +61,7 @@ export interface IRouterPush {
    * @param pathObj - Object containing `pathname`, `query`, and `hash`
    * @param options - Additional navigation options
    */
-  (pathObj: { pathname: string; query?: TRouterQuery; hash?: string }, options?: NavigateOptions): void
+  (pathObj: { pathname: string; query?: TQueryParams; hash?: string }, options?: NavigateOptions): void
 }
 
 /**
@@ -57,7 +71,7 @@ export type TUseRouter = {
   /** Navigate to a new page */
   push: IRouterPush
   /** Navigate to a new page with query parameters */
-  route: (pathname: string, query?: TRouterQuery, options?: NavigateOptions) => void
+  route: (pathname: string, query?: TQueryParams, options?: NavigateOptions) => void
   /** Replace the current history entry with a new one */
   replace: IRouterPush
   /** Go back to the previous page (history -1) */
@@ -93,10 +107,13 @@ export type TUseRouter = {
 
 /**
  * Custom router API built on top of React Router DOM.
+ * Without a `paramsSerializer`, `push` / `replace` comma-join arrays and `route` repeats their keys.
  *
+ * @param options - Optional router options.
  * @returns An object implementing the {@link TUseRouter} interface
  */
-export function useRouter(): TUseRouter {
+export function useRouter(options: TRouterOptions = {}): TUseRouter {
+  const { paramsSerializer } = options
   const navigate = useNavigate()
   const location = useLocation()
   const params = useParams()
@@ -121,39 +138,23 @@ export function useRouter(): TUseRouter {
       if (typeof url === 'string') {
         navigate(url, options)
       } else {
-        const queryString = url.query
-          ? '?' +
-            new URLSearchParams(
-              Object.entries(url.query).map(([k, v]) => [k, Array.isArray(v) ? v.join(',') : v]),
-            ).toString()
-          : ''
+        const search = url.query ? serializeParams(url.query, paramsSerializer ?? { arrayFormat: 'comma' }) : ''
+        const queryString = search ? `?${search}` : ''
         const hash = url.hash ? (url.hash.startsWith('#') ? url.hash : `#${url.hash}`) : ''
         navigate(`${url.pathname}${queryString}${hash}`, options)
       }
     },
-    [navigate],
+    [navigate, paramsSerializer],
   )
 
   const route = useCallback(
-    (pathname: string, query?: TRouterQuery, options?: NavigateOptions) => {
-      const searchParams = new URLSearchParams()
-
-      if (query) {
-        Object.entries(query).forEach(([key, value]) => {
-          if (Array.isArray(value)) {
-            value.forEach(v => searchParams.append(key, v))
-          } else {
-            searchParams.set(key, value)
-          }
-        })
-      }
-
-      const search = searchParams.toString()
+    (pathname: string, query?: TQueryParams, options?: NavigateOptions) => {
+      const search = query ? serializeParams(query, paramsSerializer ?? { arrayFormat: 'repeat' }) : ''
       const fullPath = search ? `${pathname}?${search}` : pathname
 
       navigate(fullPath, options)
     },
-    [navigate],
+    [navigate, paramsSerializer],
   )
 
   const replace = useCallback<IRouterPush>(
@@ -222,6 +223,7 @@ export function useRouter(): TUseRouter {
  *
  * @template T - Shape of the query parameters
  * @param defaultValues - Optional default values for query parameters
+ * @param options - Optional router options, updates repeat array keys without a `paramsSerializer`
  *
  * @returns A tuple:
  *  - `queryObj`: The parsed query parameters as an object
@@ -229,7 +231,9 @@ export function useRouter(): TUseRouter {
  */
 export function useQueryParams<T extends Record<string, string | string[]>>(
   defaultValues?: Partial<T>,
+  options: TRouterOptions = {},
 ): [T, (updates: Partial<T>) => void] {
+  const { paramsSerializer } = options
   const [searchParams, setSearchParams] = useSearchParams()
 
   const queryObj = useMemo(() => {
@@ -250,21 +254,19 @@ export function useQueryParams<T extends Record<string, string | string[]>>(
   const updateQuery = useCallback(
     (updates: Partial<T>) => {
       const newParams = new URLSearchParams(searchParams)
+      const keys = Object.keys(updates)
 
-      Object.entries(updates).forEach(([key, value]) => {
-        if (value === undefined || value === null) {
-          newParams.delete(key)
-        } else if (Array.isArray(value)) {
-          newParams.delete(key)
-          value.forEach(v => newParams.append(key, v))
-        } else {
-          newParams.set(key, value as string)
-        }
-      })
+      Array.from(newParams.keys())
+        .filter(key => keys.some(updated => key === updated || key.startsWith(`${updated}[`)))
+        .forEach(key => newParams.delete(key))
+
+      new URLSearchParams(serializeParams(updates, paramsSerializer ?? { arrayFormat: 'repeat' })).forEach(
+        (value, key) => newParams.append(key, value),
+      )
 
       setSearchParams(newParams)
     },
-    [searchParams, setSearchParams],
+    [searchParams, setSearchParams, paramsSerializer],
   )
 
   return [queryObj, updateQuery]
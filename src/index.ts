@@ -7,9 +7,22 @@ export * from './hooks/sectionObserver'
 export * from './hooks/slider'
 export * from './types'
 export * from './utils/api'
+export * from './utils/api-error'
+export * from './utils/cache-store'
+export * from './utils/circuit-breaker'
 export * from './utils/cookie'
+export * from './utils/download'
+export * from './utils/endpoints'
 export * from './utils/error-provider'
+export * from './utils/event-stream'
 export * from './utils/file'
 export * from './utils/general'
 export * from './utils/local'
+export * from './utils/mock-adapter'
+export * from './utils/offline-queue'
+export * from './utils/request-queue'
+export * from './utils/schema'
+export * from './utils/serializer'
+export * from './utils/stream'
+export * from './utils/upload'
 export { default as createApi } from './utils/useApi'
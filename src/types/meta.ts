@@ -1,4 +1,4 @@
-import type { ApiMeta } from '@/utils/api'
+import type { ApiMeta } from '@/utils/api-error'
 
 import type { EStatus } from './enum'
 
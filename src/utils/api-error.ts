@@ -0,0 +1,212 @@
+import type { TApiConfig } from './api'
+import { formatIssuePath, type TSchemaIssue } from './schema'
+
+export type TApiErrorOptions = {
+  /** Final configuration of the failed request */
+  config?: TApiConfig
+  /** Response of the failed request, if one was received */
+  response?: Response
+  /** Parsed response body, if any */
+  data?: unknown
+  /** The underlying error */
+  cause?: unknown
+}
+
+/** HTTP statuses worth retrying: timeouts, rate limiting and transient server errors */
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+/**
+ * Base class of every error rejected by `ApiInstance`.
+ */
+export class ApiError extends Error {
+  config?: TApiConfig
+  response?: Response
+  data?: unknown
+
+  constructor(message: string, options: TApiErrorOptions = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.config = options.config
+    this.response = options.response
+    this.data = options.data
+    if (options.cause !== undefined) this.cause = options.cause
+  }
+
+  /** Whether sending the same request again may succeed */
+  get isRetryable(): boolean {
+    return false
+  }
+}
+
+/**
+ * Error thrown for a non-2xx response. `code` and `status` are read from the `{ code, message, status }` or
+ * `{ meta: { code, message, status } }` body when present, and fall back to the HTTP status and status text.
+ * Exported as `ApiMeta` too, for backward compatibility.
+ */
+export class HttpError extends ApiError {
+  code: number
+  status: string
+
+  constructor(code: number, message: string, status: string, options: TApiErrorOptions = {}) {
+    super(message, options)
+    this.name = 'HttpError'
+    this.code = code
+    this.status = status
+  }
+
+  get isRetryable() {
+    return RETRYABLE_STATUSES.includes(this.response?.status ?? this.code)
+  }
+}
+
+export { HttpError as ApiMeta }
+
+/**
+ * Error thrown when no response was received (offline, DNS, CORS, connection reset).
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network request failed', options: TApiErrorOptions = {}) {
+    super(message, options)
+    this.name = 'NetworkError'
+  }
+
+  get isRetryable() {
+    return true
+  }
+}
+
+/**
+ * Error thrown when a request exceeds its configured timeout.
+ * Unlike a user abort, it is never swallowed by the React hooks.
+ */
+export class TimeoutError extends ApiError {
+  timeout: number
+  scope: 'attempt' | 'total'
+
+  constructor(timeout: number, scope: 'attempt' | 'total', options: TApiErrorOptions = {}) {
+    super(`Request ${scope === 'total' ? 'deadline' : 'attempt'} timed out after ${timeout}ms`, options)
+    this.name = 'TimeoutError'
+    this.timeout = timeout
+    this.scope = scope
+  }
+
+  get isRetryable() {
+    return this.scope === 'attempt'
+  }
+}
+
+/**
+ * Error thrown when the request is cancelled through its `signal`. Its `name` is `AbortError`, like the native one.
+ */
+export class AbortError extends ApiError {
+  constructor(message: string = 'The operation was aborted.', options: TApiErrorOptions = {}) {
+    super(message, options)
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * Error thrown without sending the request while the circuit breaker of its origin or route is open.
+ * Cacheable requests with a cached entry resolve the stale data instead.
+ */
+export class CircuitOpenError extends ApiError {
+  /** Key of the open circuit */
+  circuit: string
+  /** Timestamp after which a probe request is let through */
+  retryAt: number
+
+  constructor(circuit: string, retryAt: number, options: TApiErrorOptions = {}) {
+    super(`Circuit ${circuit} is open, requests are paused until ${new Date(retryAt).toISOString()}`, options)
+    this.name = 'CircuitOpenError'
+    this.circuit = circuit
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * Error thrown when a successful response body cannot be parsed as the expected `responseType`.
+ */
+export class ParseError extends ApiError {
+  constructor(message: string, options: TApiErrorOptions = {}) {
+    super(message, options)
+    this.name = 'ParseError'
+  }
+}
+
+/**
+ * Error thrown when a response body does not match the request `schema`. `data` holds the unvalidated body.
+ */
+export class ValidationError extends ApiError {
+  issues: TSchemaIssue[]
+
+  constructor(issues: TSchemaIssue[], options: TApiErrorOptions = {}) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => (issue.path?.length ? `${formatIssuePath(issue)}: ${issue.message}` : issue.message))
+      .join('; ')
+    super(`Response validation failed${summary ? `: ${summary}` : ''}`, options)
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError
+
+export const isHttpError = (error: unknown): error is HttpError => error instanceof HttpError
+
+export const isNetworkError = (error: unknown): error is NetworkError => error instanceof NetworkError
+
+export const isTimeoutError = (error: unknown): error is TimeoutError => error instanceof TimeoutError
+
+/**
+ * Checks whether the error is a cancellation, either an {@link AbortError} or a native `AbortError` `DOMException`.
+ */
+export const isAbortError = (error: unknown): error is Error => error instanceof Error && error.name === 'AbortError'
+
+export const isParseError = (error: unknown): error is ParseError => error instanceof ParseError
+
+export const isValidationError = (error: unknown): error is ValidationError => error instanceof ValidationError
+export const isCircuitOpenError = (error: unknown): error is CircuitOpenError => error instanceof CircuitOpenError
+
+/**
+ * Builds the {@link HttpError} of a non-2xx response from its body, without consuming the response.
+ *
+ * @param response - The failed response.
+ * @param config - Final configuration of the request.
+ */
+export const createHttpError = async (response: Response, config?: TApiConfig) => {
+  let text = ''
+  try {
+    text = await response.clone().text()
+  } catch {
+    // unreadable bodies fall back to the status text
+  }
+
+  let data: unknown = text || undefined
+  let parsed = false
+  try {
+    data = JSON.parse(text)
+    parsed = true
+  } catch {
+    // not a JSON body, keep the text
+  }
+
+  const options = { config, response, data }
+  if (!parsed) {
+    return new HttpError(response.status, text || response.statusText || 'Unknown error', response.statusText, options)
+  }
+
+  const body = (typeof data === 'object' && data !== null ? data : {}) as {
+    code?: number
+    message?: string
+    status?: string
+    meta?: { code?: number; message?: string; status?: string }
+  }
+  if (body.meta || body.status) {
+    const code = body.code || body.meta?.code || response.status
+    const message = body.message || body.meta?.message || JSON.stringify(data)
+    const status = body.status || body.meta?.status || response.statusText
+    return new HttpError(code, message, status, options)
+  }
+  return new HttpError(response.status, body.message || JSON.stringify(data), response.statusText, options)
+}
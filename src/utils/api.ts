@@ -1,4 +1,49 @@
-import { TPrimitive } from '@/types'
+import type { TPrimitive } from '@/types'
+
+import {
+  AbortError,
+  createHttpError,
+  HttpError,
+  isAbortError,
+  isApiError,
+  isCircuitOpenError,
+  NetworkError,
+  ParseError,
+  RETRYABLE_STATUSES,
+  TimeoutError,
+  ValidationError,
+} from './api-error'
+import {
+  resolveCacheStore,
+  type TCacheStore,
+  type TCacheStoreOptions,
+  type TCacheStoreType,
+  writeCacheStore,
+} from './cache-store'
+import { CircuitBreaker, type TCircuit, type TCircuitBreakerOptions, type TCircuitState } from './circuit-breaker'
+import { getCookie, removeCookie, setCookie } from './cookie'
+import { downloadFile, type TDownloadOptions, type TDownloadResult } from './download'
+import { readEventStream, type TEventStreamStatus, type TServerEvent } from './event-stream'
+import { getLocal, removeLocal, setLocal } from './local'
+import { OfflineQueue, type TOfflineQueueOptions } from './offline-queue'
+import { canStreamRequestBody, streamRequestBody, trackResponseBody } from './progress'
+import { RequestQueue, type TRequestPriority } from './request-queue'
+import { runSchema, type TSchema, type TSchemaMode } from './schema'
+import {
+  interpolatePath,
+  isStreamBody,
+  serializeBody,
+  serializeParams,
+  type TBodySerializer,
+  type TBodyType,
+  type TParamsSerializer,
+  type TQueryParams,
+  type TRequestBody,
+} from './serializer'
+import { abortReason, linkSignal, sleep } from './signal'
+import { readNDJSON } from './stream'
+import { type TUploadOptions, uploadInChunks } from './upload'
+import { parseURL } from './url'
 
 export type TProgress = {
   loaded: number
@@ -7,26 +52,186 @@ export type TProgress = {
 }
 export type TProgressCallback = (progress: TProgress) => void
 
-export type THttpConfig = {
+export type TAdapterRequest = {
+  /** Full request URL, including the base URL and the query string */
+  url: string
+  /** Upper-cased HTTP method */
+  method: string
+  /** Final request headers */
+  headers: Record<string, string>
+  /** Serialized request body */
+  body?: globalThis.BodyInit | null
+  /** Aborts the attempt on cancel or timeout */
+  signal: AbortSignal
+  /** Upload progress callback of the request */
+  onUpload?: TProgressCallback
+  /** Download progress callback of the request */
+  onDownload?: TProgressCallback
+}
+
+/** Sends a single request attempt and resolves its `Response`, whatever its status */
+export type TAdapter = (request: TAdapterRequest) => Promise<Response>
+
+export type TTimeoutConfig = {
+  /** Maximum duration of a single attempt in milliseconds */
+  attempt?: number
+  /** Maximum duration of the whole request, including every retry, in milliseconds */
+  total?: number
+}
+
+export type TCacheConfig = {
+  /** Enable or disable caching for this request */
+  enabled?: boolean
+  /** Cache revalidation time in milliseconds, used as `gcTime` when it is not set */
+  revalidate?: number
+  /** Age in milliseconds after which cached data is stale: still served, but revalidated in the background */
+  staleTime?: number
+  /** Age in milliseconds after which cached data is dropped and the request blocks on the network */
+  gcTime?: number
+  /**
+   * Derive the cache lifetime from the response `Cache-Control` header instead of `revalidate`:
+   * `max-age` becomes the TTL (or the `staleTime` when `stale-while-revalidate` is present), and `no-store` skips caching
+   */
+  respectCacheControl?: boolean
+  /** Tags attached to the cached entry, used by `invalidateTags` */
+  tags?: string[]
+}
+
+export type TCacheEvent<T> = {
+  /** `update` when new data is written for the key, `invalidate` when the entry is removed */
+  type: 'update' | 'invalidate'
+  /** Cache key of the entry */
+  key: string
+  /** The new data, for `update` events */
+  data?: T
+}
+
+export type TApiEventBase = {
+  /** Identifier shared by all events of one request */
+  id: number
+  /** HTTP method of the request */
+  method: string
+  /** Endpoint URL of the request, path templates are not interpolated */
+  url: string
+  /** Cache key of the request, missing when it failed before the key was built */
+  cacheKey?: string
+  /** Whether the request is a background revalidation of stale cached data */
+  revalidate: boolean
+  /** Timestamp of the request start */
+  startedAt: number
+}
+
+export type TApiEventMap = {
+  /** A request passed the request interceptors */
+  'request:start': TApiEventBase
+  /** A failed attempt is about to be retried */
+  retry: TApiEventBase & {
+    /** Number of the retry about to happen, starting from 1 */
+    attempt: number
+    /** Milliseconds waited before the retry */
+    delay: number
+    error: unknown
+    status?: number
+  }
+  /** The request was answered from a fresh or stale cache entry */
+  'cache:hit': TApiEventBase & { duration: number; isStale: boolean }
+  /** A cacheable request found no usable entry and goes to the network */
+  'cache:miss': TApiEventBase
+  /** The request resolved */
+  response: TApiEventBase & {
+    /** Milliseconds since the request start */
+    duration: number
+    /** Number of network attempts, `0` for cache hits */
+    attempts: number
+    /** HTTP status, missing for cache hits */
+    status?: number
+    /** Response size in bytes, from `Content-Length` or the read body, when known */
+    size?: number
+    fromCache: boolean
+  }
+  /** The request rejected with anything but a cancellation */
+  error: TApiEventBase & { duration: number; attempts: number; status?: number; error: unknown }
+  /** The request was cancelled through its `signal` */
+  abort: TApiEventBase & { duration: number; attempts: number }
+  /** A circuit of the circuit breaker changed state */
+  'circuit:change': TCircuit & { previous: TCircuitState }
+}
+
+export type TApiEventName = keyof TApiEventMap
+
+export type TResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream' | 'raw'
+
+export type THttpConfig<T = unknown> = {
   /** Optional request headers */
   headers?: Record<string, string>
-  /** Query parameters for the request */
-  params?: Record<string, TPrimitive | TPrimitive[]>
+  /** Query parameters for the request, `null` and `undefined` values are skipped */
+  params?: TQueryParams
+  /** How `params` are serialized, overrides the instance `paramsSerializer` */
+  paramsSerializer?: TParamsSerializer
+  /** Values of the `:name` segments of the URL, encoded into the path. The cache key keeps the template */
+  pathParams?: Record<string, TPrimitive>
   /** Optional cache configuration */
-  cache?: {
-    /** Enable or disable caching for this request */
-    enabled?: boolean
-    /** Cache revalidation time in milliseconds */
-    revalidate?: number
-  }
+  cache?: TCacheConfig
   /** Abort signal to cancel the request */
   signal?: AbortSignal
+  /** Request timeout in milliseconds (per attempt), or separate `attempt` and `total` deadlines */
+  timeout?: number | TTimeoutConfig
+  /** Number of retry attempts on failure, or a full retry policy */
+  retry?: number | TRetryConfig
+  /** Skip the instance `auth` handling (token header, refresh queueing and replay) for this request */
+  skipAuth?: boolean
+  /** Share one in-flight GET request between identical concurrent calls (default: `true`) */
+  dedupe?: boolean
+  /** Order in which the request leaves the queue when `maxConcurrent` or `maxPerHost` is reached (default: `normal`) */
+  priority?: TRequestPriority
+  /** How plain object bodies are serialized when no `Content-Type` header is set (default: `json`) */
+  bodyType?: TBodyType
+  /** Body serializers keyed by content type, merged over the instance serializers */
+  serializers?: Record<string, TBodySerializer>
+  /**
+   * How the response body is read, sniffed from `Content-Type` by default (`json` for `application/json` and `+json`,
+   * `text` for `text/*`, `blob` otherwise). `stream` resolves the body `ReadableStream` and `raw` the `Response`,
+   * both are never cached nor shared
+   */
+  responseType?: TResponseType
+  /** Validates the response body (Standard Schema or parse function), the response data type is inferred from it */
+  schema?: TSchema<T>
+  /** `throw` rejects with `ValidationError` (default), `warn` logs it and resolves the unvalidated data */
+  schemaMode?: TSchemaMode
   /** Upload progress callback */
   onUpload?: TProgressCallback
   /** Download progress callback */
   onDownload?: TProgressCallback
 }
 
+export type TRetryContext = {
+  /** Number of the retry about to happen, starting from 1 */
+  attempt: number
+  /** Error thrown by the failed attempt */
+  error: unknown
+  /** HTTP method of the request */
+  method: string
+  /** HTTP status of the failed response, if a response was received */
+  status?: number
+}
+
+export type TRetryConfig = {
+  /** Maximum number of retry attempts */
+  limit?: number
+  /** Status codes to retry on, or a predicate deciding whether a failure is retried */
+  retryOn?: number[] | ((context: TRetryContext) => boolean)
+  /** HTTP methods allowed to retry, idempotent methods by default */
+  methods?: string[]
+  /** Base delay of the exponential backoff in milliseconds */
+  baseDelay?: number
+  /** Upper bound of a single delay in milliseconds, including `Retry-After` */
+  maxDelay?: number
+  /** Randomize each delay between 0 and the backoff value (full jitter) */
+  jitter?: boolean
+  /** Called before waiting for the next attempt */
+  onRetry?: (context: TRetryContext & { delay: number }) => void
+}
+
 export type TCacheEntry<T> = {
   /** Cached data */
   data: T
@@ -34,22 +239,83 @@ export type TCacheEntry<T> = {
   timestamp: number
   /** Optional time-to-live (TTL) in milliseconds */
   ttl?: number
+  /** Optional age in milliseconds after which the data is served stale and revalidated */
+  staleTime?: number
+  /** Whether the data must be revalidated with the server before being served (`no-cache`, `max-age=0`) */
+  mustRevalidate?: boolean
+  /** `ETag` validator of the cached response */
+  etag?: string
+  /** `Last-Modified` validator of the cached response */
+  lastModified?: string
+  /** Endpoint URL of the cached request, used by `invalidateMatching` */
+  url?: string
+  /** Tags of the cached request, used by `invalidateTags` */
+  tags?: string[]
+}
+
+type TDispatchContext = {
+  /** Access token attached to the request by the `auth` option */
+  token?: string | null
+  /** Number of network attempts made so far */
+  attempts?: number
+  /** HTTP status of the final response */
+  status?: number
+  /** Size of the final response in bytes, when known */
+  size?: number
 }
 
-export type TApiConfig = {
+type TRequestTrace = Pick<TApiEventBase, 'id' | 'revalidate' | 'startedAt'> & {
+  /** High resolution start time used for durations */
+  start: number
+}
+
+type TInflight<T> = {
+  promise: Promise<TApiResponse<T>>
+  controller: AbortController
+  context: TDispatchContext
+  subscribers: number
+}
+
+export type TCacheMatcher = string | ((entry: TCacheEntry<unknown>, key: string) => boolean)
+
+export type TApiConfig<T = unknown> = {
   /** Base URL of the API */
   baseURL?: string
   /** Endpoint URL (relative or absolute) */
   url: string
   /** HTTP method for the request */
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
-  /** Request body content */
-  body?: globalThis.BodyInit
+  /** Request body, native bodies are sent as is and plain objects are serialized by content type */
+  body?: TRequestBody
   /** Request mode (e.g., 'cors', 'same-origin') */
   mode?: globalThis.RequestMode
-  /** Number of retry attempts on failure */
-  retry?: number
-} & THttpConfig
+  /** Whether cookies are sent (e.g., 'include' for cross-origin), also sets `withCredentials` on the XHR fallback */
+  credentials?: globalThis.RequestCredentials
+} & THttpConfig<T>
+
+export type TTokenStorage = {
+  /** Reads the stored access token */
+  get: () => string | null
+  /** Persists a refreshed access token */
+  set: (token: string) => void
+  /** Removes the stored access token */
+  remove?: () => void
+}
+
+export type TAuthOptions = {
+  /** Returns the current access token, defaults to reading `storage` */
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>
+  /** Requests a new access token. Use `skipAuth: true` when it calls the same instance */
+  refreshToken: () => Promise<string>
+  /** Called once when a refresh fails; the waiting requests reject with their original error */
+  onRefreshFailed?: (error: unknown) => void
+  /** Token persistence, refreshed tokens are written back to it */
+  storage?: TTokenStorage
+  /** Header carrying the token, default `Authorization` */
+  header?: string
+  /** Scheme prepended to the token, default `Bearer` (empty string sends the raw token) */
+  scheme?: string
+}
 
 export type TApiInstanceOptions = {
   /** Base URL applied to all requests from this instance */
@@ -60,6 +326,32 @@ export type TApiInstanceOptions = {
   source?: string
   /** Maximum number of cache entries to store */
   maxCacheSize?: number
+  /** Persistent cache store (namespaced by `source`) backing the in-memory cache, default `memory` only */
+  cacheStore?: TCacheStore | TCacheStoreType
+  /** Options of the built-in persistent `cacheStore` types, e.g. `maxEntrySize` */
+  cacheStoreOptions?: TCacheStoreOptions
+  /** Default timeout applied to all requests, overridable per request */
+  timeout?: number | TTimeoutConfig
+  /** Default retry policy applied to all requests, overridable per request */
+  retry?: number | TRetryConfig
+  /** Attach an access token to every request and refresh it once on `401` */
+  auth?: TAuthOptions
+  /** Body serializers keyed by content type, merged over the built-in JSON, URL-encoded and form-data ones */
+  serializers?: Record<string, TBodySerializer>
+  /** Default serialization of query `params` (default: comma separated arrays) */
+  paramsSerializer?: TParamsSerializer
+  /** Default `schemaMode` of requests with a `schema`, e.g. `warn` during development */
+  schemaMode?: TSchemaMode
+  /** Transport sending the requests, defaults to `fetch` with an `XMLHttpRequest` fallback for upload progress */
+  adapter?: TAdapter
+  /** Maximum number of requests in flight at once, the others wait in a priority queue (default: unlimited) */
+  maxConcurrent?: number
+  /** Maximum number of requests in flight at once to the same host (default: unlimited) */
+  maxPerHost?: number
+  /** Configuration of the offline mutation queue, see `offline` */
+  offline?: TOfflineQueueOptions
+  /** Fails requests to an origin or route fast while it keeps failing, pass `{}` for the defaults (default: disabled) */
+  circuitBreaker?: TCircuitBreakerOptions
 }
 
 export type TApiResponse<T> = {
@@ -69,6 +361,42 @@ export type TApiResponse<T> = {
   cacheKey?: string
   /** Indicates whether the data was served from cache */
   fromCache: boolean
+  /** Indicates whether cached data is past its `staleTime` and being revalidated in the background */
+  isStale?: boolean
+  /** Indicates whether the request was stored in the offline queue instead of being sent, `data` is then undefined */
+  queued?: boolean
+}
+
+export type TEventStreamOptions<T> = Pick<
+  THttpConfig,
+  'headers' | 'params' | 'paramsSerializer' | 'pathParams' | 'signal' | 'skipAuth'
+> & {
+  /** Event ID to resume from on the first connection */
+  lastEventId?: string
+  /** Parses the `data` of every event, defaults to `JSON.parse` falling back to the raw string */
+  parse?: (data: string, event: string) => T
+  /**
+   * Reconnect policy (default: unlimited, from 1s doubling up to 30s), `false` disables reconnecting. `limit` caps
+   * every reconnect of the stream, after a failed connection or a closed one, and the delay keeps doubling across them.
+   */
+  reconnect?: false | { limit?: number; baseDelay?: number; maxDelay?: number }
+  /** Called every time the connection is (re)opened */
+  onOpen?: (response: Response) => void
+  /** Called for every received event */
+  onEvent?: (event: TServerEvent<T>) => void
+  /** Called when a connection attempt fails or an open connection drops */
+  onError?: (error: unknown) => void
+  /** Called on every connection status change */
+  onStatusChange?: (status: TEventStreamStatus) => void
+}
+
+export type TEventStream = {
+  /** Closes the connection and stops reconnecting */
+  close: () => void
+  /** Current connection status */
+  readonly status: TEventStreamStatus
+  /** Last event ID received, sent as `Last-Event-ID` on reconnect */
+  readonly lastEventId?: string
 }
 
 export interface IApiInterceptor {
@@ -90,9 +418,45 @@ export interface IApiInterceptor {
    */
   error?: (error: unknown) => Promise<unknown>
 }
+
+export type TInterceptorHandle = {
+  /** Removes the interceptor from its pipeline */
+  eject: () => void
+}
+
+export type TApiInterceptors = {
+  /** Request interceptors, run in registration order before the request is sent */
+  request: InterceptorManager<NonNullable<IApiInterceptor['request']>>
+  /** Response interceptors, run in registration order on every received response */
+  response: InterceptorManager<NonNullable<IApiInterceptor['response']>>
+  /** Error interceptors, run in registration order until one of them resolves */
+  error: InterceptorManager<NonNullable<IApiInterceptor['error']>>
+}
+
 interface IApiInstance {
+  /**
+   * Ordered interceptor pipelines. Each `use` call returns a handle to `eject` the interceptor later.
+   *
+   * @example
+   * ```ts
+   * const auth = api.interceptors.request.use(config => ({
+   *   ...config,
+   *   headers: { ...config.headers, Authorization: 'Bearer token' },
+   * }))
+   * api.interceptors.error.use(error => {
+   *   console.error(error)
+   *   return Promise.reject(error)
+   * })
+   *
+   * auth.eject()
+   * ```
+   */
+  readonly interceptors: TApiInterceptors
+
   /**
    * Registers custom interceptors for requests and responses.
+   * Replaces the interceptors from the previous `setInterceptors` call, while interceptors added
+   * through `interceptors.*.use` are kept.
    *
    * @param interceptors{@link IApiInterceptor}: Object containing optional `request`, `response`, and `error` interceptors.
    *
@@ -123,7 +487,7 @@ interface IApiInstance {
    * })
    * ```
    */
-  request<T>(config: TApiConfig): Promise<TApiResponse<T>>
+  request<T>(config: TApiConfig<T>): Promise<TApiResponse<T>>
 
   /**
    * Performs a GET request.
@@ -138,7 +502,7 @@ interface IApiInstance {
    * const res = await api.get<User[]>('/users')
    * ```
    */
-  get<T>(url: string, config?: THttpConfig): Promise<TApiResponse<T>>
+  get<T>(url: string, config?: THttpConfig<T>): Promise<TApiResponse<T>>
 
   /**
    * Performs a POST request.
@@ -154,7 +518,7 @@ interface IApiInstance {
    * const res = await api.post<User>('/users', JSON.stringify({ name: 'John' }))
    * ```
    */
-  post<T, U = unknown>(url: string, body?: U, config?: THttpConfig): Promise<TApiResponse<T>>
+  post<T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>): Promise<TApiResponse<T>>
 
   /**
    * Performs a PUT request.
@@ -165,7 +529,7 @@ interface IApiInstance {
    * @param config{@link TApiConfig}: Optional request configuration.
    * @returns A promise resolving to the API response.
    */
-  put<T, U = unknown>(url: string, body?: U, config?: THttpConfig): Promise<TApiResponse<T>>
+  put<T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>): Promise<TApiResponse<T>>
 
   /**
    * Performs a PATCH request.
@@ -176,7 +540,7 @@ interface IApiInstance {
    * @param config{@link TApiConfig}: Optional request configuration.
    * @returns A promise resolving to the API response.
    */
-  patch<T, U = unknown>(url: string, body?: U, config?: THttpConfig): Promise<TApiResponse<T>>
+  patch<T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>): Promise<TApiResponse<T>>
 
   /**
    * Performs a DELETE request.
@@ -187,7 +551,44 @@ interface IApiInstance {
    * @param config{@link TApiConfig}: Optional request configuration.
    * @returns A promise resolving to the API response.
    */
-  delete<T, U = unknown>(url: string, body?: U, config?: THttpConfig): Promise<TApiResponse<T>>
+  delete<T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>): Promise<TApiResponse<T>>
+
+  /**
+   * Performs a GET request and iterates its newline-delimited JSON body line by line as it arrives.
+   *
+   * @template T - Type of a single line.
+   * @param url - The request URL.
+   * @param config{@link THttpConfig}: Optional request configuration, `responseType` is always `stream`.
+   * @returns An async iterator over the parsed lines.
+   *
+   * @example
+   * ```ts
+   * for await (const order of api.ndjson<Order>('/exports/orders', { signal })) {
+   *   rows.push(order)
+   * }
+   * ```
+   */
+  ndjson<T>(url: string, config?: Omit<THttpConfig, 'schema' | 'schemaMode'>): AsyncGenerator<T>
+
+  /**
+   * Opens a Server-Sent Events connection over `fetch`, so default headers, interceptors and `auth` apply.
+   * Dropped connections are reopened with exponential backoff, resuming with `Last-Event-ID`; a `204` response,
+   * a non `text/event-stream` response or a `4xx` error (other than `408` / `429`) closes the stream.
+   *
+   * @template T - Type of the parsed event data.
+   * @param url - The request URL.
+   * @param options{@link TEventStreamOptions}: Callbacks, parsing and reconnect configuration.
+   * @returns A handle to observe and close the connection.
+   *
+   * @example
+   * ```ts
+   * const stream = api.eventStream<OrderStatus>('/orders/42/status', {
+   *   onEvent: ({ data }) => setStatus(data),
+   * })
+   * stream.close()
+   * ```
+   */
+  eventStream<T = unknown>(url: string, options?: TEventStreamOptions<T>): TEventStream
 
   /**
    * Retrieves a cached response by key.
@@ -239,55 +640,446 @@ interface IApiInstance {
    * ```
    */
   clearCache(): void
+
+  /**
+   * Removes every cache entry carrying at least one of the given tags (see `cache.tags`)
+   * and notifies their subscribers, so mounted `fetch` hooks refetch.
+   *
+   * @param tags - Tags to invalidate.
+   *
+   * @example
+   * ```ts
+   * await api.post('/products', product)
+   * await api.invalidateTags(['products'])
+   * ```
+   */
+  invalidateTags(tags: string[]): Promise<void>
+
+  /**
+   * Removes every cache entry whose endpoint URL starts with the given prefix, or which satisfies
+   * the given predicate, and notifies their subscribers.
+   *
+   * @param matcher{@link TCacheMatcher}: URL prefix or `(entry, key) => boolean` predicate.
+   *
+   * @example
+   * ```ts
+   * await api.invalidateMatching('/products')
+   * await api.invalidateMatching(entry => entry.url?.includes('/stock') ?? false)
+   * ```
+   */
+  invalidateMatching(matcher: TCacheMatcher): Promise<void>
+
+  /**
+   * Subscribes to cache changes of a single key, e.g. a background revalidation or a manual `setCache`.
+   *
+   * @template T - Type of cached data.
+   * @param key - Cache key to observe.
+   * @param listener - Called with every {@link TCacheEvent} of the key.
+   * @returns A function removing the subscription.
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = api.subscribeCache<User[]>(cacheKey, event => {
+   *   if (event.type === 'update') render(event.data)
+   * })
+   * ```
+   */
+  subscribeCache<T>(key: string, listener: (event: TCacheEvent<T>) => void): () => void
+
+  /**
+   * Subscribes to a request lifecycle event, e.g. to forward timings, retries and cache hit rates to analytics.
+   * Errors thrown by listeners are ignored.
+   *
+   * @param event - One of `request:start`, `retry`, `cache:hit`, `cache:miss`, `response`, `error`, `abort` or
+   * `circuit:change`.
+   * @param listener - Called with the {@link TApiEventMap} payload of the event.
+   * @returns A function removing the subscription.
+   *
+   * @example
+   * ```ts
+   * const off = api.on('response', ({ method, url, duration, attempts, fromCache }) => {
+   *   analytics.track('api_response', { endpoint: `${method} ${url}`, duration, attempts, fromCache })
+   * })
+   * ```
+   */
+  on<E extends TApiEventName>(event: E, listener: (payload: TApiEventMap[E]) => void): () => void
+
+  /**
+   * Returns the circuits of the `circuitBreaker` which are open, probing or counting failures, e.g. for a dashboard.
+   * Circuit state changes are emitted as `circuit:change` events.
+   *
+   * @example
+   * ```ts
+   * const api = http.create({ baseURL, circuitBreaker: { scope: ['/orders', '/shipping'], failureThreshold: 3 } })
+   * api.on('circuit:change', ({ key, state, previous }) => monitor.log(`${key}: ${previous} -> ${state}`))
+   * const open = api.getCircuits().filter(circuit => circuit.state === 'open')
+   * ```
+   */
+  getCircuits(): TCircuit[]
+
+  /**
+   * Closes a circuit of the `circuitBreaker`, or every circuit when no key is given.
+   *
+   * @param key - Key of the circuit, an origin or an origin followed by a route prefix.
+   */
+  resetCircuit(key?: string): void
+
+  /**
+   * Persistent queue of mutations submitted while offline, created on first access and replayed in order when the
+   * connection comes back.
+   *
+   * @example
+   * ```ts
+   * const { queued } = await api.offline.submit({ url: '/leads', method: 'POST', body: lead })
+   * if (queued) toast('Saved, it will be sent once you are back online')
+   * ```
+   */
+  readonly offline: OfflineQueue
+
+  /**
+   * Uploads a file in chunks with limited parallelism and per-chunk retries, resumable from a server-reported offset.
+   *
+   * @template T - Type of the response data.
+   * @param url - The upload endpoint URL.
+   * @param file - The file or blob to upload.
+   * @param options - Chunk size, concurrency, resume offset and aggregate `onUpload` progress.
+   * @returns The response of the `complete` request, or of the chunk finishing last.
+   *
+   * @example
+   * ```ts
+   * await api.upload<TVideo>('/videos/upload', file, {
+   *   uploadId: savedUploadId,
+   *   offset: async ({ uploadId }) => (await api.get<{ offset: number }>(`/videos/upload/${uploadId}`)).data.offset,
+   *   onUpload: progress => setPercentage(progress.percentage),
+   * })
+   * ```
+   */
+  upload<T>(url: string, file: Blob, options?: TUploadOptions<T>): Promise<TApiResponse<T>>
+
+  /**
+   * Downloads a file with streamed progress and saves it under the `Content-Disposition` filename, falling back to
+   * `filename` with an extension from the content type.
+   *
+   * @param url - The file URL.
+   * @param options - Request configuration, `onDownload` progress, fallback `filename` and `save` (default: `true`).
+   * @returns The blob, its resolved filename and the response.
+   *
+   * @example
+   * ```ts
+   * const controller = new AbortController()
+   * const { filename } = await api.download('/reports/sales', {
+   *   params: { month: '2024-05' },
+   *   filename: 'sales-report',
+   *   signal: controller.signal,
+   *   onDownload: progress => setPercentage(progress.percentage),
+   * })
+   * ```
+   */
+  download(url: string, options?: TDownloadOptions): Promise<TDownloadResult>
 }
 
-export const buildURL = (url: string, params?: THttpConfig['params']) => {
+export const buildURL = (url: string, params?: THttpConfig['params'], serializer?: TParamsSerializer) => {
   if (!params) return url
 
-  const queryString = Object.entries(params)
-    .map(([key, value]) => {
-      if (Array.isArray(value)) {
-        const joined = value.map(v => encodeURIComponent(v)).join(',')
-        return `${encodeURIComponent(key)}=${joined}`
-      }
-      return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`
-    })
-    .join('&')
+  const queryString = serializeParams(params, serializer)
+  if (!queryString) return url
 
   return url.includes('?') ? `${url}&${queryString}` : `${url}?${queryString}`
 }
 
-export class ApiMeta extends Error {
-  code: number
-  status: string
+/**
+ * Ordered list of interceptors of a single kind.
+ *
+ * @template T - The interceptor function type.
+ */
+export class InterceptorManager<T> {
+  private handlers: Map<number, T> = new Map()
+  private nextId = 0
+
+  /**
+   * Appends an interceptor to the end of the pipeline.
+   *
+   * @param handler - The interceptor function.
+   * @returns A handle to remove the interceptor.
+   */
+  use(handler: T): TInterceptorHandle {
+    const id = this.nextId++
+    this.handlers.set(id, handler)
+    return {
+      eject: () => {
+        this.handlers.delete(id)
+      },
+    }
+  }
+
+  /**
+   * Removes every interceptor from the pipeline.
+   */
+  clear() {
+    this.handlers.clear()
+  }
+
+  /**
+   * Returns a snapshot of the registered interceptors in registration order.
+   */
+  values(): T[] {
+    return Array.from(this.handlers.values())
+  }
+}
+
+const normalizeTimeout = (timeout?: number | TTimeoutConfig): TTimeoutConfig => {
+  if (typeof timeout === 'number') return { attempt: timeout }
+  return timeout ?? {}
+}
 
-  constructor(code: number, message: string, status: string) {
-    super(message)
-    this.code = code
-    this.status = status
+/**
+ * Creates a {@link TTokenStorage} backed by a cookie.
+ *
+ * @param key - The cookie key.
+ * @param options - Optional `maxAge` (in seconds) and `sameSite` config passed to `setCookie`.
+ *
+ * @example
+ * ```ts
+ * const api = createApi({
+ *   auth: { storage: createCookieTokenStorage('jwt', { maxAge: 3600 }), refreshToken },
+ * })
+ * ```
+ */
+export const createCookieTokenStorage = (
+  key: string,
+  options: Omit<Parameters<typeof setCookie>[0], 'key' | 'value'> = {},
+): TTokenStorage => ({
+  get: () => getCookie<string>(key),
+  set: token => setCookie({ key, value: token, ...options }),
+  remove: () => removeCookie(key),
+})
+
+/**
+ * Creates a {@link TTokenStorage} backed by localStorage.
+ *
+ * @param key - The localStorage key.
+ */
+export const createLocalTokenStorage = (key: string): TTokenStorage => ({
+  get: () => getLocal<string>(key),
+  set: token => setLocal(key, token),
+  remove: () => removeLocal(key),
+})
+
+const hasHeader = (headers: Record<string, string> | undefined, name: string) =>
+  Object.keys(headers ?? {}).some(key => key.toLowerCase() === name.toLowerCase())
+
+const parseCacheControl = (value: string | null) => {
+  const directives: Record<string, string | true> = {}
+  value?.split(',').forEach(part => {
+    const [name, arg] = part.trim().split('=')
+    if (name) directives[name.toLowerCase()] = arg ? arg.replace(/"/g, '') : true
+  })
+  return directives
+}
+
+const cacheLifetime = (cache: TCacheConfig, headers: Headers) => {
+  const lifetime = { ttl: cache.gcTime ?? cache.revalidate, staleTime: cache.staleTime }
+  if (!cache.respectCacheControl) return lifetime
+
+  const directives = parseCacheControl(headers.get('cache-control'))
+  const maxAge = Number(directives['max-age'])
+  const staleWhileRevalidate = Number(directives['stale-while-revalidate'])
+  if (directives['no-store']) return null
+  if (directives['no-cache'] || (maxAge === 0 && Number.isNaN(staleWhileRevalidate))) {
+    return { ...lifetime, mustRevalidate: true }
   }
+  if (Number.isNaN(maxAge)) return lifetime
+
+  if (Number.isNaN(staleWhileRevalidate)) return { ...lifetime, ttl: maxAge * 1000, mustRevalidate: false }
+  return { ttl: (maxAge + staleWhileRevalidate) * 1000, staleTime: maxAge * 1000, mustRevalidate: false }
+}
+
+const RETRY_METHODS = ['GET', 'PUT', 'DELETE']
+
+const normalizeRetry = (retry?: number | TRetryConfig): TRetryConfig => {
+  if (typeof retry === 'number') return { limit: retry }
+  return retry ?? {}
+}
+
+const shouldRetry = (retry: TRetryConfig, context: TRetryContext) => {
+  const methods = retry.methods ?? RETRY_METHODS
+  if (!methods.map(method => method.toUpperCase()).includes(context.method)) return false
+  if (typeof retry.retryOn === 'function') return retry.retryOn(context)
+  if (context.status === undefined) return isApiError(context.error) ? context.error.isRetryable : true
+  return (retry.retryOn ?? RETRYABLE_STATUSES).includes(context.status)
+}
+
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const retryDelay = (retry: TRetryConfig, attempt: number, retryAfter?: number) => {
+  const maxDelay = retry.maxDelay ?? 30000
+  if (retryAfter !== undefined) return Math.min(retryAfter, maxDelay)
+  const backoff = Math.min(Math.pow(2, attempt) * (retry.baseDelay ?? 200), maxDelay)
+  return retry.jitter === false ? backoff : Math.round(Math.random() * backoff)
+}
+
+const isStreaming = (config: TApiConfig) => config.responseType === 'stream' || config.responseType === 'raw'
+
+const isCacheable = (config: TApiConfig) => !!config.cache?.enabled && config.method === 'GET' && !isStreaming(config)
+
+const byteSize = (data: unknown) => {
+  if (typeof data === 'string') return new TextEncoder().encode(data).byteLength
+  if (data instanceof Blob) return data.size
+  if (data instanceof ArrayBuffer) return data.byteLength
+  return undefined
+}
+
+/** Reads the body as `responseType`, with its size in bytes when the whole body was read */
+const readResponse = async (
+  response: Response,
+  responseType?: TResponseType,
+): Promise<{ data: unknown; size?: number }> => {
+  const measured = (data: unknown) => ({ data, size: byteSize(data) })
+  const readJSON = async (allowEmpty: boolean) => {
+    const text = await response.text()
+    return { data: allowEmpty && !text ? null : JSON.parse(text), size: byteSize(text) }
+  }
+
+  switch (responseType) {
+    case 'raw':
+      return { data: response }
+    case 'stream':
+      return { data: response.body }
+    case 'arrayBuffer':
+      return measured(await response.arrayBuffer())
+    case 'blob':
+      return measured(await response.blob())
+    case 'text':
+      return measured(await response.text())
+    case 'json':
+      return readJSON(true)
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  if (/[/+]json\b/i.test(contentType)) return readJSON(false)
+  if (contentType.includes('text/')) return measured(await response.text())
+  return measured(await response.blob())
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+const schemaIds = new WeakMap<object, number>()
+let lastSchemaId = 0
+
+/** Identifies a schema by reference, so requests validated by different schemas never share a response */
+const schemaId = (schema: object) => {
+  let id = schemaIds.get(schema)
+  if (id === undefined) {
+    id = ++lastSchemaId
+    schemaIds.set(schema, id)
+  }
+  return id
+}
+
+/**
+ * Wraps a response so the callback runs once its body is fully read, errors or is cancelled.
+ */
+const onBodyEnd = (response: Response, callback: () => void) => {
+  if (!response.body) {
+    callback()
+    return response
+  }
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (!done) return controller.enqueue(value)
+        callback()
+        controller.close()
+      } catch (error) {
+        callback()
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      callback()
+      return reader.cancel(reason)
+    },
+  })
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
 }
 
 export class ApiInstance implements IApiInstance {
   private baseURL: string
   private defaultHeaders: globalThis.RequestInit['headers']
-  private interceptors: IApiInterceptor = {}
+  private interceptorHandles: TInterceptorHandle[] = []
   private source: string
+  private timeout: TTimeoutConfig
+  private retry: TRetryConfig
+  private auth?: TAuthOptions
+  private refreshing: Promise<string> | null = null
+  private failedToken?: string | null
   private cache: Map<string, TCacheEntry<unknown>>
   private maxCacheSize: number
   private cacheAccessOrder: string[]
+  private store?: TCacheStore
+  private cacheListeners: Map<string, Set<(event: TCacheEvent<unknown>) => void>> = new Map()
+  private revalidating: Set<string> = new Set()
+  private inflight: Map<string, TInflight<unknown>> = new Map()
+  private eventListeners: Map<TApiEventName, Set<(payload: never) => void>> = new Map()
+  private requestId = 0
+  private serializers: Record<string, TBodySerializer>
+  private paramsSerializer?: TParamsSerializer
+  private schemaMode: TSchemaMode
+  private adapter?: TAdapter
+  private queue?: RequestQueue
+  private offlineOptions?: TOfflineQueueOptions
+  private offlineQueue?: OfflineQueue
+  private breaker?: CircuitBreaker
 
   constructor(options: TApiInstanceOptions = {}) {
     this.baseURL = options.baseURL || ''
     this.defaultHeaders = options.headers || {}
     this.source = `komerce-${options.source || 'default'}`
+    this.timeout = normalizeTimeout(options.timeout)
+    this.retry = normalizeRetry(options.retry)
+    this.auth = options.auth
+    this.serializers = options.serializers || {}
+    this.paramsSerializer = options.paramsSerializer
+    this.schemaMode = options.schemaMode || 'throw'
+    this.adapter = options.adapter
+    this.offlineOptions = options.offline
+    if (options.maxConcurrent || options.maxPerHost) {
+      this.queue = new RequestQueue({ maxConcurrent: options.maxConcurrent, maxPerHost: options.maxPerHost })
+    }
+    if (options.circuitBreaker) {
+      this.breaker = new CircuitBreaker(options.circuitBreaker, (circuit, previous) =>
+        this.emit('circuit:change', { ...circuit, previous }),
+      )
+    }
     this.cache = new Map()
     this.maxCacheSize = options.maxCacheSize || 100
     this.cacheAccessOrder = []
+    if (options.cacheStore && options.cacheStore !== 'memory') {
+      this.store = resolveCacheStore(options.cacheStore, this.source, options.cacheStoreOptions)
+    }
+  }
+
+  readonly interceptors: TApiInterceptors = {
+    request: new InterceptorManager(),
+    response: new InterceptorManager(),
+    error: new InterceptorManager(),
   }
 
   setInterceptors(interceptors: IApiInterceptor) {
-    this.interceptors = interceptors
+    this.interceptorHandles.forEach(handle => handle.eject())
+    this.interceptorHandles = []
+    if (interceptors.request) this.interceptorHandles.push(this.interceptors.request.use(interceptors.request))
+    if (interceptors.response) this.interceptorHandles.push(this.interceptors.response.use(interceptors.response))
+    if (interceptors.error) this.interceptorHandles.push(this.interceptors.error.use(interceptors.error))
   }
 
   private hash(str: string): string {
@@ -304,8 +1096,11 @@ export class ApiInstance implements IApiInstance {
     const keyObj = {
       baseURL: config.baseURL,
       url: config.url,
+      ...(config.pathParams ? { pathParams: config.pathParams } : {}),
       params: config.params,
       method: config.method || 'GET',
+      ...(config.responseType ? { responseType: config.responseType } : {}),
+      ...(config.schema ? { schema: schemaId(config.schema) } : {}),
     }
 
     const keyString = JSON.stringify(keyObj)
@@ -327,6 +1122,7 @@ export class ApiInstance implements IApiInstance {
       const method = (init.method || 'GET').toUpperCase()
 
       xhr.open(method, input)
+      xhr.withCredentials = init.credentials === 'include'
 
       if (init.headers) {
         const headers = new Headers(init.headers)
@@ -361,9 +1157,13 @@ export class ApiInstance implements IApiInstance {
       }
 
       if (init.signal) {
+        if (init.signal.aborted) {
+          reject(abortReason(init.signal))
+          return
+        }
         init.signal.addEventListener('abort', () => {
           xhr.abort()
-          reject(new DOMException('The operation was aborted.', 'AbortError'))
+          reject(abortReason(init.signal!))
         })
       }
 
@@ -371,12 +1171,10 @@ export class ApiInstance implements IApiInstance {
         const headers = new Headers()
         xhr
           .getAllResponseHeaders()
-          .split('\r\n')
+          .split(/\r?\n/)
           .forEach(line => {
-            const parts = line.split(': ')
-            if (parts.length === 2) {
-              headers.append(parts[0], parts[1])
-            }
+            const separator = line.indexOf(':')
+            if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
           })
 
         const response = new Response(xhr.response, {
@@ -388,8 +1186,8 @@ export class ApiInstance implements IApiInstance {
         resolve(response)
       }
 
-      xhr.onerror = () => reject(new TypeError('Network request failed'))
-      xhr.ontimeout = () => reject(new TypeError('Network request timeout'))
+      xhr.onerror = () => reject(new NetworkError())
+      xhr.ontimeout = () => reject(new NetworkError('Network request timeout'))
 
       xhr.send(
         init.body as
@@ -405,84 +1203,139 @@ export class ApiInstance implements IApiInstance {
     })
   }
 
+  private async fetchWithProgress(
+    input: string,
+    init: globalThis.RequestInit,
+    onUpload?: TProgressCallback,
+    onDownload?: TProgressCallback,
+  ): Promise<Response> {
+    const hasBody = !!onUpload && init.body != null
+    // XHR cannot send a stream body, so it is always streamed
+    const streamUpload = hasBody && (isStreamBody(init.body) || canStreamRequestBody(input))
+    if (hasBody && !streamUpload && typeof XMLHttpRequest !== 'undefined') {
+      return this.fetchWithXHR(input, init, onUpload, onDownload)
+    }
+
+    const res = await fetch(input, streamUpload ? await streamRequestBody(init, onUpload!) : init)
+    return onDownload ? trackResponseBody(res, onDownload) : res
+  }
+
   private async fetchWithRetry(
     input: globalThis.RequestInfo,
     init: globalThis.RequestInit,
-    retry: number,
+    retry: TRetryConfig,
     signal?: AbortSignal,
     onUpload?: TProgressCallback,
     onDownload?: TProgressCallback,
+    timeout?: number,
   ) {
+    const limit = retry.limit ?? 0
+    const method = (init.method || 'GET').toUpperCase()
+    const circuit = this.breaker?.keyOf(input as string)
     let attempt = 0
     let lastErr: unknown
 
-    while (attempt <= retry) {
+    while (attempt <= limit) {
+      if (circuit) this.breaker!.enter(circuit)
+      const attemptSignal = linkSignal(signal, timeout)
+      let status: number | undefined
+      let retryAfter: number | undefined
+      let received = false
+      const toAttemptError = (error: unknown) => {
+        // the caller can abort with any reason, a cancelled attempt always rejects with an AbortError
+        if (attemptSignal.signal.aborted && !attemptSignal.isTimedOut()) {
+          return isAbortError(error) ? error : new AbortError(undefined, { cause: attemptSignal.signal.reason })
+        }
+        return isAbortError(error) || isApiError(error) ? error : new NetworkError(undefined, { cause: error })
+      }
       try {
         let res: Response
-        if (onUpload || onDownload) {
-          res = await this.fetchWithXHR(input as string, { ...init, signal }, onUpload, onDownload)
+        if (this.adapter) {
+          res = await this.adapter({
+            url: input as string,
+            method,
+            headers: init.headers as Record<string, string>,
+            body: init.body,
+            signal: attemptSignal.signal,
+            onUpload,
+            onDownload,
+          }).catch(error => {
+            throw toAttemptError(error)
+          })
         } else {
-          res = await fetch(input, { ...init, signal })
+          res = await this.fetchWithProgress(
+            input as string,
+            { ...init, signal: attemptSignal.signal },
+            onUpload,
+            onDownload,
+          ).catch(error => {
+            throw toAttemptError(error)
+          })
         }
 
-        if (!res.ok) {
-          const clonedRes = res.clone()
-          try {
-            const error = await clonedRes.json()
-            if (error.meta || error.status) {
-              const code = error.code || error.meta.code || res.status
-              const message = error.message || error.meta.message || JSON.stringify(error)
-              const status = error.status || error.meta.status || res.statusText
-              throw new ApiMeta(code, message, status)
-            }
-            throw new ApiMeta(res.status, error.message || JSON.stringify(error), res.statusText)
-          } catch (jsonError) {
-            if (jsonError instanceof ApiMeta) throw jsonError
-            try {
-              const errorText = await res.text()
-              throw new ApiMeta(res.status, errorText || res.statusText || 'Unknown error', res.statusText)
-            } catch (textError) {
-              if (textError instanceof ApiMeta) throw textError
-              throw new ApiMeta(res.status, res.statusText || 'Unknown error', res.statusText)
-            }
-          }
+        if (!res.ok && res.status !== 304) {
+          status = res.status
+          if (status === 429 || status === 503) retryAfter = parseRetryAfter(res.headers.get('retry-after'))
+          throw await createHttpError(res)
         }
+        if (circuit) this.breaker!.settle(circuit)
+        received = true
         return res
       } catch (err) {
-        if (err instanceof Error && err.name === 'AbortError') {
+        const error = attemptSignal.isTimedOut() ? new TimeoutError(timeout!, 'attempt') : err
+        if (signal?.aborted) {
+          // a cancel by the caller says nothing about the service, whatever the attempt rejected with
+          if (circuit) this.breaker!.cancel(circuit)
           throw err
         }
-
-        lastErr = err
-        if (attempt === retry) throw lastErr
-
-        const delay = Math.pow(2, attempt) * 200
-        await new Promise(r => setTimeout(r, delay))
+        if (circuit) this.breaker!.settle(circuit, error)
+        if (!attemptSignal.isTimedOut() && isAbortError(err)) throw err
+
+        lastErr = error
+        const context: TRetryContext = { attempt: attempt + 1, error: lastErr, method, status }
+        if (attempt === limit || !shouldRetry(retry, context)) throw lastErr
+        // the circuit opened on this attempt, so the request fails like the next attempt would
+        if (circuit) this.breaker!.check(circuit, lastErr)
+
+        const delay = retryDelay(retry, attempt, retryAfter)
+        retry.onRetry?.({ ...context, delay })
+        await sleep(delay, signal)
         attempt++
+      } finally {
+        // a received response stays abortable while its body is read, the deadline signal only lives as long
+        if (received) attemptSignal.clearTimer()
+        else attemptSignal.clear()
       }
     }
     throw lastErr
   }
 
   private async handleInterceptors(config: TApiConfig) {
-    if (this.interceptors.request) {
-      return await this.interceptors.request(config)
+    let result = config
+    for (const interceptor of this.interceptors.request.values()) {
+      result = await interceptor(result)
     }
-    return config
+    return result
   }
 
   private async handleResponse(response: Response) {
-    if (this.interceptors.response) {
-      return await this.interceptors.response(response)
+    let result = response
+    for (const interceptor of this.interceptors.response.values()) {
+      result = await interceptor(result)
     }
-    return response
+    return result
   }
 
   private async handleError(error: unknown) {
-    if (this.interceptors.error) {
-      return await this.interceptors.error(error)
+    let reason = error
+    for (const interceptor of this.interceptors.error.values()) {
+      try {
+        return await interceptor(reason)
+      } catch (err) {
+        reason = err
+      }
     }
-    throw error
+    throw reason
   }
 
   private getCacheEntry<T>(key: string): TCacheEntry<T> | undefined {
@@ -498,7 +1351,24 @@ export class ApiInstance implements IApiInstance {
     return entry
   }
 
-  private setCacheEntry<T>(key: string, entry: TCacheEntry<T>): void {
+  private async readCacheEntry<T>(key: string): Promise<TCacheEntry<T> | undefined> {
+    const entry = this.getCacheEntry<T>(key)
+    if (entry || !this.store) return entry
+
+    try {
+      const stored = await this.store.get<T>(key)
+      if (stored) this.setCacheEntry(key, stored, false)
+      return stored
+    } catch {
+      return undefined
+    }
+  }
+
+  private persist(run: (store: TCacheStore) => void | Promise<unknown>) {
+    if (this.store) writeCacheStore(this.store, run)
+  }
+
+  private setCacheEntry<T>(key: string, entry: TCacheEntry<T>, persist: boolean = true): void {
     if (this.cache.size >= this.maxCacheSize && !this.cache.has(key)) {
       const oldestKey = this.cacheAccessOrder.shift()
       if (oldestKey) {
@@ -512,6 +1382,35 @@ export class ApiInstance implements IApiInstance {
       this.cacheAccessOrder.splice(index, 1)
     }
     this.cacheAccessOrder.push(key)
+    if (persist) this.persist(store => store.set(key, entry))
+    this.notifyCache({ type: 'update', key, data: entry.data })
+  }
+
+  private eventBase(config: TApiConfig, trace: TRequestTrace, cacheKey?: string): TApiEventBase {
+    const { id, revalidate, startedAt } = trace
+    return { id, method: config.method || 'GET', url: config.url, cacheKey, revalidate, startedAt }
+  }
+
+  private emit<E extends TApiEventName>(event: E, payload: TApiEventMap[E]) {
+    this.eventListeners.get(event)?.forEach(listener => {
+      try {
+        ;(listener as (payload: TApiEventMap[E]) => void)(payload)
+      } catch {
+        // a failing listener must never break the request
+      }
+    })
+  }
+
+  private notifyCache(event: TCacheEvent<unknown>) {
+    this.cacheListeners.get(event.key)?.forEach(listener => listener(event))
+  }
+
+  private revalidate(config: TApiConfig, key: string) {
+    if (this.revalidating.has(key)) return
+    this.revalidating.add(key)
+    this.send({ ...config, signal: undefined }, { revalidate: true })
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key))
   }
 
   private removeCacheEntry(key: string): void {
@@ -520,126 +1419,528 @@ export class ApiInstance implements IApiInstance {
     if (index > -1) {
       this.cacheAccessOrder.splice(index, 1)
     }
+    this.persist(store => store.delete(key))
   }
 
-  async request<T>(config: TApiConfig): Promise<TApiResponse<T>> {
-    try {
-      const mergedConfig: TApiConfig = {
-        baseURL: this.baseURL,
-        ...config,
-        headers: {
-          ...(this.defaultHeaders as Record<string, string>),
-          ...config.headers,
-        },
+  private async resolveToken() {
+    if (!this.auth) return null
+    if (this.auth.getToken) return (await this.auth.getToken()) ?? null
+    return this.auth.storage?.get() ?? null
+  }
+
+  private refreshAccessToken() {
+    if (!this.refreshing) {
+      const auth = this.auth!
+      this.refreshing = auth
+        .refreshToken()
+        .then(token => {
+          auth.storage?.set(token)
+          this.failedToken = undefined
+          return token
+        })
+        .catch(async error => {
+          auth.storage?.remove?.()
+          this.failedToken = await this.resolveToken().catch(() => null)
+          auth.onRefreshFailed?.(error)
+          throw error
+        })
+        .finally(() => {
+          this.refreshing = null
+        })
+    }
+    return this.refreshing
+  }
+
+  private async validate<T>(config: TApiConfig, data: unknown, response: Response): Promise<T> {
+    if (!config.schema) return data as T
+
+    const result = await runSchema(config.schema, data)
+    if (!result.issues) return result.value as T
+
+    const error = new ValidationError(result.issues, { config, response, data, cause: result.cause })
+    if ((config.schemaMode ?? this.schemaMode) !== 'warn') throw error
+    // eslint-disable-next-line no-console
+    console.warn(`[${this.source}] ${error.message}`, error.issues)
+    return data as T
+  }
+
+  private async authHeaders(config: TApiConfig) {
+    if (!this.auth || config.skipAuth) return {}
+    if (this.refreshing) await this.refreshing.catch(() => undefined)
+
+    const token = await this.resolveToken()
+    const header = this.auth.header ?? 'Authorization'
+    if (!token || hasHeader(config.headers, header)) return { token }
+
+    const scheme = this.auth.scheme ?? 'Bearer'
+    return { token, headers: { [header]: scheme ? `${scheme} ${token}` : token } }
+  }
+
+  private share<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal, context: TDispatchContext) => Promise<TApiResponse<T>>,
+  ) {
+    if (signal?.aborted) {
+      return { promise: Promise.reject<TApiResponse<T>>(abortReason(signal)), context: {} }
+    }
+
+    let flight = this.inflight.get(key) as TInflight<T> | undefined
+    if (!flight) {
+      const controller = new AbortController()
+      const context: TDispatchContext = {}
+      const created: TInflight<T> = {
+        controller,
+        context,
+        subscribers: 0,
+        promise: run(controller.signal, context).finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key)
+        }),
       }
+      this.inflight.set(key, created as TInflight<unknown>)
+      flight = created
+    }
 
-      const finalConfig = await this.handleInterceptors(mergedConfig)
-      const cacheKey = this.buildcacheKey(finalConfig)
+    const current = flight
+    current.subscribers++
 
-      if (finalConfig.cache && finalConfig.cache.enabled && finalConfig.method === 'GET') {
-        const cached = this.getCacheEntry<T>(cacheKey)
-        if (cached) {
-          const expired = cached.ttl && Date.now() - cached.timestamp > cached.ttl
-          if (!expired) {
-            return { data: cached.data as T, cacheKey, fromCache: true }
-          }
-          this.removeCacheEntry(cacheKey)
+    const promise = new Promise<TApiResponse<T>>((resolve, reject) => {
+      let settled = false
+      const leave = () => {
+        settled = true
+        current.subscribers--
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const onAbort = () => {
+        if (settled) return
+        leave()
+        if (current.subscribers === 0) {
+          current.controller.abort(signal!.reason)
+          if (this.inflight.get(key) === current) this.inflight.delete(key)
         }
+        reject(abortReason(signal!))
       }
 
-      const url = finalConfig.baseURL ? `${finalConfig.baseURL}${finalConfig.url}` : finalConfig.url
-      const finalURL = buildURL(url, finalConfig.params)
-      const isFormData = finalConfig.body instanceof FormData
+      signal?.addEventListener('abort', onAbort, { once: true })
+      current.promise.then(
+        response => {
+          if (settled) return
+          leave()
+          resolve({ ...response })
+        },
+        error => {
+          if (settled) return
+          leave()
+          reject(error)
+        },
+      )
+    })
+
+    return { promise, context: current.context }
+  }
+
+  private async dispatch<T>(
+    finalConfig: TApiConfig,
+    cacheKey: string,
+    cached: TCacheEntry<T> | undefined,
+    signal: AbortSignal | undefined,
+    context: TDispatchContext,
+    trace: TRequestTrace,
+  ): Promise<TApiResponse<T>> {
+    const cacheConfig = isCacheable(finalConfig) ? finalConfig.cache : undefined
+    const timeout = { ...this.timeout, ...normalizeTimeout(finalConfig.timeout) }
+    let deadline: ReturnType<typeof linkSignal> | undefined
+    let release: (() => void) | undefined
+    let streamed = false
+
+    try {
+      const conditionalHeaders: Record<string, string> = {}
+      if (cached?.etag && !hasHeader(finalConfig.headers, 'If-None-Match')) {
+        conditionalHeaders['If-None-Match'] = cached.etag
+      }
+      if (cached?.lastModified && !hasHeader(finalConfig.headers, 'If-Modified-Since')) {
+        conditionalHeaders['If-Modified-Since'] = cached.lastModified
+      }
+
+      const auth = await this.authHeaders(finalConfig)
+      context.token = auth.token
+
+      deadline = linkSignal(signal, timeout.total)
+
+      const path = finalConfig.pathParams ? interpolatePath(finalConfig.url, finalConfig.pathParams) : finalConfig.url
+      const url = finalConfig.baseURL ? `${finalConfig.baseURL}${path}` : path
+      const finalURL = buildURL(url, finalConfig.params, finalConfig.paramsSerializer ?? this.paramsSerializer)
+      const { body, headers } = serializeBody(finalConfig.body, finalConfig.headers, {
+        bodyType: finalConfig.bodyType,
+        serializers: { ...this.serializers, ...finalConfig.serializers },
+      })
+
+      // requests to an open circuit fail before waiting for a slot they would not use
+      const circuit = this.breaker?.keyOf(finalURL)
+      if (circuit) this.breaker!.check(circuit)
+      release = await this.queue?.acquire(parseURL(finalURL)?.host ?? '', finalConfig.priority, deadline.signal)
+
+      const retry = { ...this.retry, ...normalizeRetry(finalConfig.retry) }
+      // a stream body is consumed by the first attempt
+      const streamBody = isStreamBody(body)
+      if (streamBody) retry.limit = 0
+      const { onRetry } = retry
+      context.attempts = 1
+      retry.onRetry = retryContext => {
+        context.attempts = retryContext.attempt + 1
+        this.emit('retry', { ...this.eventBase(finalConfig, trace, cacheKey), ...retryContext })
+        onRetry?.(retryContext)
+      }
 
       const response = await this.fetchWithRetry(
         finalURL,
         {
           method: finalConfig.method || 'GET',
-          headers: {
-            ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
-            ...finalConfig.headers,
-          },
-          body: isFormData ? finalConfig.body : finalConfig.body ? JSON.stringify(finalConfig.body) : undefined,
-        },
-        finalConfig.retry ?? 0,
-        finalConfig.signal,
+          headers: { ...headers, ...conditionalHeaders, ...auth.headers },
+          body,
+          mode: finalConfig.mode,
+          credentials: finalConfig.credentials,
+          ...(streamBody ? { duplex: 'half' } : {}),
+        } as globalThis.RequestInit,
+        retry,
+        deadline.signal,
         finalConfig.onUpload,
         finalConfig.onDownload,
+        timeout.attempt,
       )
 
       const finalResponse = await this.handleResponse(response)
-      if (!finalResponse.ok) {
-        try {
-          const error = await finalResponse.clone().json()
-          if (error.meta || error.status) {
-            const code = error.code || error.meta.code || finalResponse.status
-            const message = error.message || error.meta.message || JSON.stringify(error)
-            const status = error.status || error.meta.status || finalResponse.statusText
-            throw new ApiMeta(code, message, status)
-          }
-          throw new ApiMeta(finalResponse.status, error.message || JSON.stringify(error), finalResponse.statusText)
-        } catch (jsonError) {
-          if (jsonError instanceof ApiMeta) throw jsonError
-          try {
-            const errorText = await finalResponse.text()
-            throw new ApiMeta(
-              finalResponse.status,
-              errorText || finalResponse.statusText || 'Unknown error',
-              finalResponse.statusText,
-            )
-          } catch (textError) {
-            if (textError instanceof ApiMeta) throw textError
-            throw new ApiMeta(
-              finalResponse.status,
-              finalResponse.statusText || 'Unknown error',
-              finalResponse.statusText,
-            )
-          }
+      context.status = finalResponse.status
+      if (finalResponse.status === 304 && cached && cacheConfig) {
+        const lifetime = cacheLifetime(cacheConfig, finalResponse.headers)
+        if (lifetime) {
+          this.setCacheEntry(
+            cacheKey,
+            { ...cached, ...lifetime, timestamp: Date.now(), tags: cacheConfig.tags },
+            !finalConfig.schema,
+          )
+        } else {
+          this.removeCacheEntry(cacheKey)
         }
+        return { data: cached.data, cacheKey, fromCache: true, isStale: false }
       }
 
-      const contentType = finalResponse.headers.get('content-type') || ''
-      let data: T
-      if (contentType.includes('application/json')) {
-        data = (await finalResponse.json()) as T
-      } else if (contentType.includes('text/')) {
-        data = (await finalResponse.text()) as T
-      } else {
-        data = (await finalResponse.blob()) as T
+      if (!finalResponse.ok) throw await createHttpError(finalResponse, finalConfig)
+
+      let readable = finalResponse
+      if (isStreaming(finalConfig)) {
+        // the caller reads the body after the request settled, the signal stays linked until it is done
+        readable = onBodyEnd(finalResponse, deadline.clear)
+        streamed = true
       }
 
-      if (finalConfig.cache && finalConfig.cache.enabled && finalConfig.method === 'GET') {
-        this.setCacheEntry(cacheKey, {
-          data,
-          timestamp: Date.now(),
-          ttl: finalConfig.cache?.revalidate,
-        })
+      let data: T
+      let size: number | undefined
+      try {
+        const read = await readResponse(readable, finalConfig.responseType)
+        data = read.data as T
+        size = read.size
+      } catch (error) {
+        if (isAbortError(error) || deadline.signal.aborted) throw error
+        const options = { config: finalConfig, response: finalResponse, cause: error }
+        if (error instanceof SyntaxError) throw new ParseError(`Invalid response body from ${finalConfig.url}`, options)
+        throw new NetworkError('Failed to read the response body', options)
+      }
+      const contentLength = finalResponse.headers.get('content-length')
+      context.size = contentLength ? Number(contentLength) : size
+      data = await this.validate<T>(finalConfig, data, finalResponse)
+
+      const lifetime = cacheConfig && cacheLifetime(cacheConfig, finalResponse.headers)
+      if (lifetime) {
+        // schema ids only hold for the page lifetime, so validated responses are not persisted
+        this.setCacheEntry(
+          cacheKey,
+          {
+            data,
+            timestamp: Date.now(),
+            ...lifetime,
+            etag: finalResponse.headers.get('etag') ?? undefined,
+            lastModified: finalResponse.headers.get('last-modified') ?? undefined,
+            url: path,
+            tags: cacheConfig.tags,
+          },
+          !finalConfig.schema,
+        )
+      } else if (cacheConfig) {
+        this.removeCacheEntry(cacheKey)
       }
 
       return { data, cacheKey, fromCache: false }
     } catch (error) {
+      if (deadline?.isTimedOut()) throw new TimeoutError(timeout.total!, 'total', { config: finalConfig, cause: error })
+      if (isApiError(error)) error.config ??= finalConfig
+      throw error
+    } finally {
+      release?.()
+      if (streamed) deadline?.clearTimer()
+      else deadline?.clear()
+    }
+  }
+
+  private async send<T>(
+    config: TApiConfig<T>,
+    options: { replayed?: boolean; revalidate?: boolean; trace?: TRequestTrace } = {},
+  ): Promise<TApiResponse<T>> {
+    const trace = options.trace ?? {
+      id: ++this.requestId,
+      revalidate: !!options.revalidate,
+      startedAt: Date.now(),
+      start: now(),
+    }
+    let base = this.eventBase(config, trace)
+    let context: TDispatchContext = {}
+
+    try {
+      const mergedConfig: TApiConfig = {
+        baseURL: this.baseURL,
+        ...config,
+        headers: {
+          ...(this.defaultHeaders as Record<string, string>),
+          ...config.headers,
+        },
+      }
+
+      const finalConfig = await this.handleInterceptors(mergedConfig)
+      const cacheKey = this.buildcacheKey(finalConfig)
+      const method = finalConfig.method || 'GET'
+      let cached: TCacheEntry<T> | undefined
+      let stale: TCacheEntry<T> | undefined
+      base = this.eventBase(finalConfig, trace, cacheKey)
+      if (!options.trace) this.emit('request:start', base)
+
+      if (isCacheable(finalConfig)) {
+        cached = await this.readCacheEntry<T>(cacheKey)
+        stale = cached
+        if (cached && !options.revalidate) {
+          const age = Date.now() - cached.timestamp
+          const expired = cached.mustRevalidate || (cached.ttl && age > cached.ttl)
+          if (!expired) {
+            const isStale = cached.staleTime !== undefined && age > cached.staleTime
+            if (isStale) this.revalidate(config, cacheKey)
+            const duration = now() - trace.start
+            this.emit('cache:hit', { ...base, duration, isStale })
+            this.emit('response', { ...base, duration, attempts: 0, fromCache: true })
+            return { data: cached.data as T, cacheKey, fromCache: true, isStale }
+          }
+          if (!cached.etag && !cached.lastModified) {
+            this.removeCacheEntry(cacheKey)
+            cached = undefined
+          }
+        }
+        if (!options.revalidate) this.emit('cache:miss', base)
+      }
+
+      const shouldDedupe =
+        method === 'GET' &&
+        finalConfig.dedupe !== false &&
+        !finalConfig.onUpload &&
+        !finalConfig.onDownload &&
+        !isStreaming(finalConfig) &&
+        !isStreamBody(finalConfig.body)
+      let response: TApiResponse<T>
+      try {
+        if (!shouldDedupe) {
+          response = await this.dispatch<T>(finalConfig, cacheKey, cached, finalConfig.signal, context, trace)
+        } else {
+          const flight = this.share<T>(cacheKey, finalConfig.signal, (signal, flightContext) =>
+            this.dispatch<T>(finalConfig, cacheKey, cached, signal, flightContext, trace),
+          )
+          context = flight.context
+          response = await flight.promise
+        }
+      } catch (error) {
+        // an open circuit serves the last known data, even expired, rather than failing
+        if (!stale || !isCircuitOpenError(error)) throw error
+        this.emit('cache:hit', { ...base, duration: now() - trace.start, isStale: true })
+        response = { data: stale.data, cacheKey, fromCache: true, isStale: true }
+      }
+
+      this.emit('response', {
+        ...base,
+        duration: now() - trace.start,
+        attempts: context.attempts ?? 1,
+        status: context.status,
+        size: context.size,
+        fromCache: response.fromCache,
+      })
+      return response
+    } catch (cause) {
+      // aborts with a custom reason reject with the reason itself from the queue, dedupe and backoff waits
+      const cancelled = isAbortError(cause) || (!!config.signal?.aborted && cause === config.signal.reason)
+      const error = cancelled && !(cause instanceof AbortError) ? new AbortError(undefined, { config, cause }) : cause
+      if (!options.replayed && this.auth && !config.skipAuth && error instanceof HttpError && error.code === 401) {
+        let refreshed = false
+        try {
+          const current = await this.resolveToken()
+          // after a failed refresh, the next one waits for a new token to be stored
+          if (this.failedToken !== undefined && current === this.failedToken) throw error
+          if (!current || current === context.token) await this.refreshAccessToken()
+          refreshed = true
+        } catch {
+          // the refresh failure is reported through `onRefreshFailed`, the original error is handled below
+        }
+        if (refreshed) return this.send<T>(config, { ...options, replayed: true, trace })
+      }
+
+      const duration = now() - trace.start
+      const attempts = context.attempts ?? 0
+      if (isAbortError(error)) {
+        this.emit('abort', { ...base, duration, attempts })
+      } else {
+        const status = error instanceof HttpError ? error.response?.status : undefined
+        this.emit('error', { ...base, duration, attempts, status, error })
+      }
       return this.handleError(error) as Promise<TApiResponse<T>>
     }
   }
 
-  get<T>(url: string, config: THttpConfig = {}) {
+  request<T>(config: TApiConfig<T>): Promise<TApiResponse<T>> {
+    return this.send<T>(config)
+  }
+
+  get<T>(url: string, config: THttpConfig<T> = {}) {
     return this.request<T>({ ...config, url, method: 'GET' })
   }
 
-  post<T, U = unknown>(url: string, body?: U, config: THttpConfig = {}) {
-    return this.request<T>({ ...config, url, method: 'POST', body: body as globalThis.BodyInit })
+  post<T, U = unknown>(url: string, body?: U, config: THttpConfig<T> = {}) {
+    return this.request<T>({ ...config, url, method: 'POST', body: body as TRequestBody })
+  }
+
+  put<T, U = unknown>(url: string, body?: U, config: THttpConfig<T> = {}) {
+    return this.request<T>({ ...config, url, method: 'PUT', body: body as TRequestBody })
+  }
+
+  patch<T, U = unknown>(url: string, body?: U, config: THttpConfig<T> = {}) {
+    return this.request<T>({ ...config, url, method: 'PATCH', body: body as TRequestBody })
+  }
+
+  delete<T, U = unknown>(url: string, body?: U, config: THttpConfig<T> = {}) {
+    return this.request<T>({ ...config, url, method: 'DELETE', body: body as TRequestBody })
   }
 
-  put<T, U = unknown>(url: string, body?: U, config: THttpConfig = {}) {
-    return this.request<T>({ ...config, url, method: 'PUT', body: body as globalThis.BodyInit })
+  upload<T>(url: string, file: Blob, options: TUploadOptions<T> = {}) {
+    return uploadInChunks<T>(config => this.request(config), url, file, options)
   }
 
-  patch<T, U = unknown>(url: string, body?: U, config: THttpConfig = {}) {
-    return this.request<T>({ ...config, url, method: 'PATCH', body: body as globalThis.BodyInit })
+  download(url: string, options: TDownloadOptions = {}) {
+    return downloadFile(config => this.request(config), url, options)
   }
 
-  delete<T, U = unknown>(url: string, body?: U, config: THttpConfig = {}) {
-    return this.request<T>({ ...config, url, method: 'DELETE', body: body as globalThis.BodyInit })
+  async *ndjson<T>(url: string, config: Omit<THttpConfig, 'schema' | 'schemaMode'> = {}): AsyncGenerator<T> {
+    const { data } = await this.get<ReadableStream<Uint8Array> | null>(url, { ...config, responseType: 'stream' })
+    if (data) yield* readNDJSON<T>(data)
+  }
+
+  eventStream<T = unknown>(url: string, options: TEventStreamOptions<T> = {}): TEventStream {
+    const { lastEventId, parse, reconnect, onOpen, onEvent, onError, onStatusChange, signal, ...config } = options
+    const controller = new AbortController()
+    const close = () => controller.abort()
+    if (signal?.aborted) close()
+    else signal?.addEventListener('abort', close, { once: true })
+
+    const { limit = Infinity, baseDelay = 1000, maxDelay = 30000 } = reconnect || {}
+    const parseData =
+      parse ??
+      ((data: string) => {
+        try {
+          return JSON.parse(data) as T
+        } catch {
+          return data as T
+        }
+      })
+
+    const handle = {
+      status: 'connecting' as TEventStreamStatus,
+      lastEventId,
+      close,
+    }
+    const notify = <A extends unknown[]>(callback: ((...args: A) => void) | undefined, ...args: A) => {
+      try {
+        callback?.(...args)
+      } catch {
+        // run() is not awaited, a failing callback must never reject it or stop the stream
+      }
+    }
+    const setStatus = (status: TEventStreamStatus) => {
+      if (handle.status === status) return
+      handle.status = status
+      notify(onStatusChange, status)
+    }
+
+    const run = async () => {
+      let attempt = 0
+      let serverDelay: number | undefined
+
+      while (!controller.signal.aborted) {
+        let fatal = false
+        try {
+          const { data: response } = await this.get<Response>(url, {
+            ...config,
+            headers: {
+              Accept: 'text/event-stream',
+              ...(handle.lastEventId ? { 'Last-Event-ID': handle.lastEventId } : {}),
+              ...config.headers,
+            },
+            signal: controller.signal,
+            responseType: 'raw',
+            retry: 0,
+          })
+
+          if (response.status === 204) break
+          if (!response.body || !/text\/event-stream/i.test(response.headers.get('content-type') || '')) {
+            fatal = true
+            throw new TypeError(`Expected a text/event-stream response from ${url}`)
+          }
+
+          setStatus('open')
+          notify(onOpen, response)
+
+          for await (const message of readEventStream(response.body)) {
+            if (controller.signal.aborted) break
+            if (message.retry !== undefined) serverDelay = message.retry
+            if (message.id !== undefined) handle.lastEventId = message.id
+            if (message.data === undefined) continue
+            const data = parseData(message.data, message.event)
+            notify(onEvent, { event: message.event, data, id: handle.lastEventId })
+          }
+        } catch (error) {
+          if (controller.signal.aborted) break
+          fatal ||=
+            error instanceof HttpError && error.code >= 400 && error.code < 500 && ![408, 429].includes(error.code)
+          notify(onError, error)
+        }
+
+        if (controller.signal.aborted || fatal || reconnect === false || attempt >= limit) break
+        setStatus('reconnecting')
+        try {
+          await sleep(Math.min(maxDelay, (serverDelay ?? baseDelay) * 2 ** attempt), controller.signal)
+        } catch {
+          break
+        }
+        attempt++
+      }
+
+      signal?.removeEventListener('abort', close)
+      setStatus('closed')
+    }
+
+    notify(onStatusChange, 'connecting')
+    void run()
+
+    return {
+      close,
+      get status() {
+        return handle.status
+      },
+      get lastEventId() {
+        return handle.lastEventId
+      },
+    }
   }
 
   getCache<T>(key: string): T | undefined {
@@ -658,22 +1959,106 @@ export class ApiInstance implements IApiInstance {
   clearCache(): void {
     this.cache.clear()
     this.cacheAccessOrder = []
+    this.persist(store => store.clear())
+  }
+
+  async invalidateMatching(matcher: TCacheMatcher) {
+    const predicate =
+      typeof matcher === 'string' ? (entry: TCacheEntry<unknown>) => !!entry.url?.startsWith(matcher) : matcher
+
+    const keys = new Set(this.cache.keys())
+    if (this.store) {
+      try {
+        const stored = await this.store.keys()
+        stored.filter(key => key.startsWith(`${this.source}:`)).forEach(key => keys.add(key))
+      } catch {
+        // an unreadable store only limits invalidation to the in-memory entries
+      }
+    }
+
+    for (const key of keys) {
+      let entry = this.cache.get(key)
+      if (!entry && this.store) entry = await Promise.resolve(this.store.get(key)).catch(() => undefined)
+      if (entry && predicate(entry, key)) {
+        this.removeCacheEntry(key)
+        this.notifyCache({ type: 'invalidate', key })
+      }
+    }
+  }
+
+  invalidateTags(tags: string[]) {
+    return this.invalidateMatching(entry => !!entry.tags?.some(tag => tags.includes(tag)))
+  }
+
+  get offline() {
+    this.offlineQueue ??= new OfflineQueue(
+      config => this.request(config),
+      `${this.source}:offline`,
+      this.offlineOptions,
+    )
+    return this.offlineQueue
+  }
+
+  getCircuits() {
+    return this.breaker?.getCircuits() ?? []
+  }
+
+  resetCircuit(key?: string) {
+    this.breaker?.reset(key)
+  }
+
+  on<E extends TApiEventName>(event: E, listener: (payload: TApiEventMap[E]) => void) {
+    const listeners = this.eventListeners.get(event) ?? new Set()
+    listeners.add(listener)
+    this.eventListeners.set(event, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (!listeners.size) this.eventListeners.delete(event)
+    }
+  }
+
+  subscribeCache<T>(key: string, listener: (event: TCacheEvent<T>) => void) {
+    const listeners = this.cacheListeners.get(key) ?? new Set()
+    listeners.add(listener as (event: TCacheEvent<unknown>) => void)
+    this.cacheListeners.set(key, listeners)
+
+    return () => {
+      listeners.delete(listener as (event: TCacheEvent<unknown>) => void)
+      if (!listeners.size) this.cacheListeners.delete(key)
+    }
   }
 }
 
 const instance = new ApiInstance()
 
 const http = {
-  get: <T>(url: string, config?: THttpConfig) => instance.get<T>(url, config),
-  post: <T, U = unknown>(url: string, body?: U, config?: THttpConfig) => instance.post<T, U>(url, body, config),
-  put: <T, U = unknown>(url: string, body?: U, config?: THttpConfig) => instance.put<T, U>(url, body, config),
-  patch: <T, U = unknown>(url: string, body?: U, config?: THttpConfig) => instance.patch<T, U>(url, body, config),
-  delete: <T, U = unknown>(url: string, body?: U, config?: THttpConfig) => instance.delete<T, U>(url, body, config),
+  get: <T>(url: string, config?: THttpConfig<T>) => instance.get<T>(url, config),
+  post: <T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>) => instance.post<T, U>(url, body, config),
+  put: <T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>) => instance.put<T, U>(url, body, config),
+  patch: <T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>) => instance.patch<T, U>(url, body, config),
+  delete: <T, U = unknown>(url: string, body?: U, config?: THttpConfig<T>) => instance.delete<T, U>(url, body, config),
+  ndjson: <T>(url: string, config?: Omit<THttpConfig, 'schema' | 'schemaMode'>) => instance.ndjson<T>(url, config),
+  upload: <T>(url: string, file: Blob, options?: TUploadOptions<T>) => instance.upload<T>(url, file, options),
+  download: (url: string, options?: TDownloadOptions) => instance.download(url, options),
+  eventStream: <T = unknown>(url: string, options?: TEventStreamOptions<T>) => instance.eventStream<T>(url, options),
   getCache: <T>(key: string) => instance.getCache<T>(key),
   setCache: <T>(key: string, data: T, ttl?: number) => instance.setCache<T>(key, data, ttl),
   removeCache: (key: string) => instance.removeCache(key),
   clearCache: () => instance.clearCache(),
-  request: (config: TApiConfig) => instance.request(config),
+  invalidateTags: (tags: string[]) => instance.invalidateTags(tags),
+  invalidateMatching: (matcher: TCacheMatcher) => instance.invalidateMatching(matcher),
+  subscribeCache: <T>(key: string, listener: (event: TCacheEvent<T>) => void) =>
+    instance.subscribeCache<T>(key, listener),
+  on: <E extends TApiEventName>(event: E, listener: (payload: TApiEventMap[E]) => void) => instance.on(event, listener),
+  getCircuits: () => instance.getCircuits(),
+  resetCircuit: (key?: string) => instance.resetCircuit(key),
+  get offline() {
+    return instance.offline
+  },
+  request: <T>(config: TApiConfig<T>) => instance.request<T>(config),
+  interceptors: instance.interceptors,
+  setInterceptors: (interceptors: IApiInterceptor) => instance.setInterceptors(interceptors),
   create: (options: TApiInstanceOptions = {}): IApiInstance => new ApiInstance(options),
 }
 
@@ -0,0 +1,315 @@
+import type { TCacheEntry } from './api'
+
+export type TCacheStore = {
+  /** Reads an entry, resolving `undefined` when it is missing or unreadable */
+  get: <T>(key: string) => TCacheEntry<T> | undefined | Promise<TCacheEntry<T> | undefined>
+  /** Writes an entry */
+  set: <T>(key: string, entry: TCacheEntry<T>) => void | Promise<void>
+  /** Removes an entry */
+  delete: (key: string) => void | Promise<void>
+  /** Removes every entry of the store namespace */
+  clear: () => void | Promise<void>
+  /** Lists the keys of the store namespace */
+  keys: () => string[] | Promise<string[]>
+}
+
+export type TCacheStoreType = 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB'
+
+export type TCacheStoreOptions = {
+  /** Maximum serialized size of a single entry, larger entries are not persisted (default: 256 KB) */
+  maxEntrySize?: number
+}
+
+const DEFAULT_MAX_ENTRY_SIZE = 256 * 1024
+const IDB_NAME = 'komerce-lp-helper'
+const IDB_CACHE_STORE = 'cache'
+
+const storeKeyPrefix = (namespace: string) => `komerce-cache|${namespace}|`
+
+/** Binary bodies (`blob` and `arrayBuffer` responses), which `JSON.stringify` cannot represent */
+const isBinary = (data: unknown) =>
+  (typeof Blob !== 'undefined' && data instanceof Blob) || data instanceof ArrayBuffer || ArrayBuffer.isView(data)
+
+const isCacheEntry = <T>(value: unknown): value is TCacheEntry<T> =>
+  typeof value === 'object' &&
+  value !== null &&
+  'data' in value &&
+  typeof (value as TCacheEntry<T>).timestamp === 'number' &&
+  ['number', 'undefined'].includes(typeof (value as TCacheEntry<T>).ttl)
+
+/**
+ * Creates an in-memory {@link TCacheStore}. Entries live as long as the page.
+ *
+ * @example
+ * ```ts
+ * const store = createMemoryCacheStore()
+ * const api = createApi({ cacheStore: store })
+ * ```
+ */
+export const createMemoryCacheStore = (): TCacheStore => {
+  const entries: Map<string, TCacheEntry<unknown>> = new Map()
+
+  return {
+    get: <T>(key: string) => entries.get(key) as TCacheEntry<T> | undefined,
+    set: (key, entry) => {
+      entries.set(key, entry)
+    },
+    delete: key => {
+      entries.delete(key)
+    },
+    clear: () => entries.clear(),
+    keys: () => Array.from(entries.keys()),
+  }
+}
+
+const createWebStorageCacheStore = (
+  getStorage: () => Storage,
+  namespace: string,
+  options: TCacheStoreOptions = {},
+): TCacheStore => {
+  const prefix = storeKeyPrefix(namespace)
+  const maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE
+
+  const keys = () => {
+    try {
+      const storage = getStorage()
+      const result: string[] = []
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)
+        if (key?.startsWith(prefix)) result.push(key.slice(prefix.length))
+      }
+      return result
+    } catch {
+      return []
+    }
+  }
+
+  const remove = (key: string) => {
+    try {
+      getStorage().removeItem(prefix + key)
+    } catch {
+      // storage is unavailable, nothing to remove
+    }
+  }
+
+  const read = <T>(key: string) => {
+    let raw: string | null
+    try {
+      raw = getStorage().getItem(prefix + key)
+    } catch {
+      return undefined
+    }
+    if (raw === null) return undefined
+
+    try {
+      const entry = JSON.parse(raw)
+      if (isCacheEntry<T>(entry)) return entry
+    } catch {
+      // corrupt JSON is evicted below
+    }
+    remove(key)
+    return undefined
+  }
+
+  const evictOldest = () => {
+    const entries = keys()
+      .map(key => ({ key, timestamp: read(key)?.timestamp ?? 0 }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+    entries.slice(0, Math.max(1, Math.ceil(entries.length / 2))).forEach(({ key }) => remove(key))
+    return entries.length > 0
+  }
+
+  return {
+    get: read,
+    set: (key, entry) => {
+      let serialized: string
+      try {
+        if (isBinary(entry.data)) throw new TypeError('Binary data is not serializable')
+        serialized = JSON.stringify(entry)
+      } catch {
+        remove(key)
+        return
+      }
+
+      if (serialized.length > maxEntrySize) {
+        remove(key)
+        return
+      }
+
+      try {
+        getStorage().setItem(prefix + key, serialized)
+      } catch {
+        try {
+          if (evictOldest()) getStorage().setItem(prefix + key, serialized)
+        } catch {
+          remove(key)
+        }
+      }
+    },
+    delete: remove,
+    clear: () => keys().forEach(remove),
+    keys,
+  }
+}
+
+/**
+ * Creates a {@link TCacheStore} persisted in localStorage, scoped by `namespace`.
+ * Unreadable entries are evicted on read, oversized or non-serializable entries are not persisted,
+ * and the oldest entries of the namespace are evicted when the storage quota is exceeded.
+ *
+ * @param namespace - Prefix isolating the entries of one API source.
+ * @param options - Optional store configuration.
+ */
+export const createLocalCacheStore = (namespace: string, options?: TCacheStoreOptions) =>
+  createWebStorageCacheStore(() => localStorage, namespace, options)
+
+/**
+ * Creates a {@link TCacheStore} persisted in sessionStorage, scoped by `namespace`.
+ * Behaves like {@link createLocalCacheStore} but entries are dropped when the tab is closed.
+ *
+ * @param namespace - Prefix isolating the entries of one API source.
+ * @param options - Optional store configuration.
+ */
+export const createSessionCacheStore = (namespace: string, options?: TCacheStoreOptions) =>
+  createWebStorageCacheStore(() => sessionStorage, namespace, options)
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, 1)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(IDB_CACHE_STORE)) {
+          request.result.createObjectStore(IDB_CACHE_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+const transact = async <T>(mode: 'readonly' | 'readwrite', run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(IDB_CACHE_STORE, mode).objectStore(IDB_CACHE_STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const entrySize = (entry: TCacheEntry<unknown>) => {
+  const { data } = entry
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return data.size
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength
+  return JSON.stringify(entry).length
+}
+
+/**
+ * Creates a {@link TCacheStore} persisted in IndexedDB, scoped by `namespace`.
+ * Entries are stored as structured clones, so `Blob` and `ArrayBuffer` responses can be persisted too.
+ * Every operation fails silently (as a cache miss) when IndexedDB is unavailable.
+ *
+ * @param namespace - Prefix isolating the entries of one API source.
+ * @param options - Optional store configuration.
+ */
+export const createIndexedDBCacheStore = (namespace: string, options: TCacheStoreOptions = {}): TCacheStore => {
+  const prefix = storeKeyPrefix(namespace)
+  const range = () => IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+  const maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE
+
+  const remove = async (key: string) => {
+    try {
+      await transact('readwrite', store => store.delete(prefix + key))
+    } catch {
+      // IndexedDB is unavailable, nothing to remove
+    }
+  }
+
+  return {
+    get: async <T>(key: string) => {
+      try {
+        const entry = await transact('readonly', store => store.get(prefix + key))
+        if (entry === undefined) return undefined
+        if (isCacheEntry<T>(entry)) return entry
+        await remove(key)
+      } catch {
+        // unreadable entries are treated as a cache miss
+      }
+      return undefined
+    },
+    set: async (key, entry) => {
+      try {
+        if (entrySize(entry) > maxEntrySize) {
+          await remove(key)
+          return
+        }
+        await transact('readwrite', store => store.put(entry, prefix + key))
+      } catch {
+        await remove(key)
+      }
+    },
+    delete: remove,
+    clear: async () => {
+      try {
+        await transact('readwrite', store => store.delete(range()))
+      } catch {
+        // IndexedDB is unavailable, nothing to clear
+      }
+    },
+    keys: async () => {
+      try {
+        const keys = await transact('readonly', store => store.getAllKeys(range()))
+        return keys.map(key => String(key).slice(prefix.length))
+      } catch {
+        return []
+      }
+    },
+  }
+}
+
+/**
+ * Runs a write against a store without waiting for it. Stores are a best-effort layer over the memory state, so a
+ * write throwing or rejecting (quota, private mode, closed database) is ignored.
+ *
+ * @param store - The store to write to.
+ * @param run - The write, e.g. `store => store.set(key, entry)`.
+ */
+export const writeCacheStore = (store: TCacheStore, run: (store: TCacheStore) => void | Promise<unknown>) => {
+  try {
+    Promise.resolve(run(store)).catch(() => undefined)
+  } catch {
+    // ignored like a rejected write
+  }
+}
+
+/**
+ * Resolves a built-in store type to its {@link TCacheStore}, passing custom stores through.
+ *
+ * @param store - A built-in store type or a custom store.
+ * @param namespace - Namespace of the built-in persistent stores.
+ * @param options - Optional store configuration.
+ */
+export const resolveCacheStore = (
+  store: TCacheStore | TCacheStoreType,
+  namespace: string,
+  options?: TCacheStoreOptions,
+): TCacheStore => {
+  if (typeof store !== 'string') return store
+
+  switch (store) {
+    case 'localStorage':
+      return createLocalCacheStore(namespace, options)
+    case 'sessionStorage':
+      return createSessionCacheStore(namespace, options)
+    case 'indexedDB':
+      return createIndexedDBCacheStore(namespace, options)
+    default:
+      return createMemoryCacheStore()
+  }
+}
@@ -0,0 +1,189 @@
+import { CircuitOpenError, isAbortError, isHttpError, isNetworkError, isTimeoutError } from './api-error'
+import { parseURL } from './url'
+
+export type TCircuitState = 'closed' | 'open' | 'half-open'
+
+export type TCircuitBreakerOptions = {
+  /**
+   * Groups requests into circuits: `origin` (default) opens one circuit per origin, a list of route prefixes opens one
+   * per prefix (the longest matching wins, other requests bypass the breaker), and a function returns the circuit key
+   * of a URL, or `undefined` to bypass it.
+   */
+  scope?: 'origin' | string[] | ((url: string) => string | undefined)
+  /** Consecutive failed attempts opening the circuit (default: 5) */
+  failureThreshold?: number
+  /** Milliseconds the circuit stays open before a single probe request is let through (default: 30s) */
+  openInterval?: number
+  /** Whether a failed attempt counts against the circuit (default: network errors, timeouts and `5xx` statuses) */
+  isFailure?: (error: unknown) => boolean
+}
+
+export type TCircuit = {
+  /** Key of the circuit, an origin or an origin followed by a route prefix */
+  key: string
+  state: TCircuitState
+  /** Consecutive failed attempts */
+  failures: number
+  /** Timestamp after which the open circuit lets a probe through */
+  retryAt?: number
+}
+
+const CIRCUIT_STATUSES = [500, 502, 503, 504]
+
+const isServiceFailure = (error: unknown) =>
+  isNetworkError(error) ||
+  (isTimeoutError(error) && error.scope === 'attempt') ||
+  (isHttpError(error) && CIRCUIT_STATUSES.includes(error.response?.status ?? error.code))
+
+/**
+ * Stops sending requests to a failing service. A circuit opens after `failureThreshold` consecutive failed attempts and
+ * rejects every attempt with {@link CircuitOpenError} for `openInterval`. The first attempt after that is a probe:
+ * its success closes the circuit and its failure opens it again, attempts made meanwhile are rejected.
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, TCircuit & { probing: boolean }> = new Map()
+  private scope: NonNullable<TCircuitBreakerOptions['scope']>
+  private failureThreshold: number
+  private openInterval: number
+  private isFailure: (error: unknown) => boolean
+  private onChange: (circuit: TCircuit, previous: TCircuitState) => void
+
+  /**
+   * @param options - Scope, threshold and interval of the circuits.
+   * @param onChange - Called when a circuit changes state.
+   */
+  constructor(
+    options: TCircuitBreakerOptions = {},
+    onChange: (circuit: TCircuit, previous: TCircuitState) => void = () => undefined,
+  ) {
+    this.scope = options.scope ?? 'origin'
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5)
+    this.openInterval = options.openInterval ?? 30000
+    this.isFailure = options.isFailure ?? isServiceFailure
+    this.onChange = onChange
+  }
+
+  /**
+   * Returns the circuit key of a URL, or undefined when the breaker does not cover it.
+   *
+   * @param url - Full URL of the request.
+   */
+  keyOf(url: string): string | undefined {
+    if (typeof this.scope === 'function') return this.scope(url)
+
+    const parsed = parseURL(url)
+    if (!parsed) return undefined
+    if (this.scope === 'origin') return parsed.origin
+
+    const prefix = this.scope
+      .filter(
+        route => parsed.pathname === route || parsed.pathname.startsWith(route.endsWith('/') ? route : `${route}/`),
+      )
+      .sort((a, b) => b.length - a.length)[0]
+    return prefix === undefined ? undefined : `${parsed.origin}${prefix}`
+  }
+
+  /**
+   * Lets an attempt through, or rejects it while the circuit is open or probing.
+   *
+   * @param key - Key of the circuit.
+   * @throws {CircuitOpenError} When the attempt must not be sent.
+   */
+  enter(key: string) {
+    const circuit = this.circuits.get(key)
+    if (!circuit || circuit.state === 'closed') return
+
+    if (circuit.state === 'open' && Date.now() >= circuit.retryAt!) {
+      this.transition(circuit, 'half-open')
+    }
+    if (circuit.state === 'half-open' && !circuit.probing) {
+      circuit.probing = true
+      return
+    }
+    throw new CircuitOpenError(key, circuit.retryAt ?? Date.now())
+  }
+
+  /**
+   * Rejects while the circuit rejects every attempt, without letting a probe through like `enter`.
+   *
+   * @param key - Key of the circuit.
+   * @param cause - The error of the attempt which opened the circuit, if any.
+   * @throws {CircuitOpenError} When the circuit is open.
+   */
+  check(key: string, cause?: unknown) {
+    const circuit = this.circuits.get(key)
+    if (circuit?.state === 'open' && Date.now() < circuit.retryAt!) {
+      throw new CircuitOpenError(key, circuit.retryAt!, { cause })
+    }
+  }
+
+  /**
+   * Releases an attempt let through by `enter` without recording an outcome, e.g. when the caller cancelled it.
+   *
+   * @param key - Key of the circuit.
+   */
+  cancel(key: string) {
+    const circuit = this.circuits.get(key)
+    if (circuit) circuit.probing = false
+  }
+
+  /**
+   * Records the outcome of an attempt let through by `enter`. Cancelled attempts are ignored, and errors not counting
+   * as failures (e.g. a `404`) prove the service is up like a success.
+   *
+   * @param key - Key of the circuit.
+   * @param error - The error of a failed attempt, omitted on success.
+   */
+  settle(key: string, error?: unknown) {
+    const circuit = this.circuits.get(key)
+    if (circuit) circuit.probing = false
+    if (isAbortError(error)) return
+
+    if (error === undefined || !this.isFailure(error)) {
+      if (circuit && circuit.state !== 'closed') this.transition(circuit, 'closed')
+      this.circuits.delete(key)
+      return
+    }
+
+    const failing: TCircuit & { probing: boolean } = circuit ?? { key, state: 'closed', failures: 0, probing: false }
+    failing.failures++
+    this.circuits.set(key, failing)
+    if (failing.state === 'half-open' || failing.failures >= this.failureThreshold) {
+      failing.retryAt = Date.now() + this.openInterval
+      this.transition(failing, 'open')
+    }
+  }
+
+  /**
+   * Returns the circuits which are open, probing or counting failures.
+   */
+  getCircuits(): TCircuit[] {
+    return [...this.circuits.values()].map(({ key, state, failures, retryAt }) => ({ key, state, failures, retryAt }))
+  }
+
+  /**
+   * Closes a circuit, or every circuit when no key is given.
+   *
+   * @param key - Key of the circuit.
+   */
+  reset(key?: string) {
+    const circuits = key ? [this.circuits.get(key)] : [...this.circuits.values()]
+    circuits.forEach(circuit => {
+      if (!circuit) return
+      circuit.failures = 0
+      circuit.probing = false
+      if (circuit.state !== 'closed') this.transition(circuit, 'closed')
+      this.circuits.delete(circuit.key)
+    })
+  }
+
+  private transition(circuit: TCircuit & { probing: boolean }, state: TCircuitState) {
+    const previous = circuit.state
+    circuit.state = state
+    if (state === 'closed') {
+      circuit.failures = 0
+      circuit.retryAt = undefined
+    }
+    this.onChange({ key: circuit.key, state, failures: circuit.failures, retryAt: circuit.retryAt }, previous)
+  }
+}
@@ -0,0 +1,83 @@
+import type { TApiConfig, TApiResponse, THttpConfig } from './api'
+import { AbortError } from './api-error'
+import { downloadBlob, filenameWithExtension, parseContentDisposition } from './file'
+import { decodedLength, toProgress } from './progress'
+import { abortReason } from './signal'
+
+export type TDownloadOptions = Omit<THttpConfig, 'responseType' | 'schema' | 'schemaMode' | 'cache'> & {
+  /** Filename used without `Content-Disposition`, gets an extension from the type if missing (default: `download`) */
+  filename?: string
+  /** Saves the file through a download anchor, disable it to only read the blob (default: `true`) */
+  save?: boolean
+}
+
+export type TDownloadResult = {
+  /** Downloaded content, typed with the response `Content-Type` */
+  blob: Blob
+  /** Name of the file, from `Content-Disposition` or the fallback */
+  filename: string
+  /** The raw response, its body already consumed */
+  response: Response
+}
+
+const fallbackFilename = (name: string, blob: Blob) =>
+  /\.[\w-]+$/.test(name) ? name : filenameWithExtension(blob, name)
+
+/**
+ * Downloads a file, reading the response body as a stream to report progress, and names it after the
+ * `Content-Disposition` header (RFC 5987 `filename*` included) or the fallback filename with an extension from the
+ * content type. Aborting the signal cancels the request and the body read.
+ *
+ * @param send - Sends a request through an instance.
+ * @param url - The file URL.
+ * @param options - Request configuration, fallback filename and whether to save the file.
+ * @returns The blob, its filename and the response.
+ */
+export const downloadFile = async (
+  send: <R>(config: TApiConfig<R>) => Promise<TApiResponse<R>>,
+  url: string,
+  options: TDownloadOptions = {},
+): Promise<TDownloadResult> => {
+  const { filename, save = true, onDownload, ...config } = options
+  const { signal } = config
+  const { data: response } = await send<Response>({ ...config, url, method: 'GET', responseType: 'raw' })
+
+  const type = response.headers.get('content-type') ?? ''
+  const length = decodedLength(response.headers)
+  let blob: Blob
+
+  if (!response.body) {
+    blob = await response.blob()
+    onDownload?.({ loaded: blob.size, total: blob.size, percentage: 100 })
+  } else {
+    const reader = response.body.getReader()
+    const cancel = () => void reader.cancel(signal?.reason).catch(() => undefined)
+    signal?.addEventListener('abort', cancel, { once: true })
+
+    const chunks: Uint8Array<ArrayBuffer>[] = []
+    let loaded = 0
+    try {
+      onDownload?.(toProgress(loaded, length))
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value)
+        loaded += result.value.byteLength
+        onDownload?.(toProgress(loaded, length))
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error
+    } finally {
+      signal?.removeEventListener('abort', cancel)
+    }
+
+    if (signal?.aborted) throw new AbortError(undefined, { config: { ...config, url }, cause: abortReason(signal) })
+    if (!length || loaded !== length) onDownload?.({ loaded, total: loaded, percentage: 100 })
+    blob = new Blob(chunks, { type })
+  }
+
+  const name =
+    parseContentDisposition(response.headers.get('content-disposition')) ??
+    fallbackFilename(filename || 'download', blob)
+  if (save && typeof document !== 'undefined') downloadBlob(blob, name)
+
+  return { blob, filename: name, response }
+}
@@ -0,0 +1,129 @@
+import type { TPrimitive } from '@/types'
+
+import type { ApiInstance, TApiConfig, TApiResponse, THttpConfig } from './api'
+import { isSchema, type TInferSchema, type TSchema } from './schema'
+import type { TQueryParams } from './serializer'
+
+/** Type-only description of an endpoint part that has no runtime schema, created with {@link typed} */
+export type TTyped<T> = { readonly '~type'?: T }
+
+export type TEndpointPart<T = unknown> = TSchema<T> | TTyped<T>
+
+export type TEndpoint = {
+  /** HTTP method (default: `GET`) */
+  method?: NonNullable<TApiConfig['method']>
+  /** Path template, `:name` segments are typed path params */
+  path: string
+  /** Response schema (validated at runtime) or {@link typed} marker */
+  response?: TEndpointPart
+  /** Query params schema or {@link typed} marker, used for typing only */
+  query?: TEndpointPart<TQueryParams>
+  /** Body schema or {@link typed} marker, used for typing only */
+  body?: TEndpointPart
+}
+
+export type TEndpoints = Record<string, TEndpoint>
+
+type TInferPart<P> = P extends TSchema<unknown> ? TInferSchema<P> : P extends TTyped<infer T> ? T : never
+
+/** Names of the `:name` segments of a path template */
+export type TPathParamNames<P extends string> = P extends `${string}:${infer Rest}`
+  ? Rest extends `${infer Name}/${infer Tail}`
+    ? Name | TPathParamNames<`/${Tail}`>
+    : Rest
+  : never
+
+export type TPathParams<P extends string> = { [K in TPathParamNames<P>]: TPrimitive }
+
+export type TEndpointResponse<E extends TEndpoint> = E extends { response: infer R } ? TInferPart<R> : unknown
+
+export type TEndpointInput<E extends TEndpoint> = ([TPathParamNames<E['path']>] extends [never]
+  ? { pathParams?: undefined }
+  : { pathParams: TPathParams<E['path']> }) &
+  (E extends { query: infer Q } ? { query?: TInferPart<Q> } : { query?: undefined }) &
+  (E extends { body: infer B } ? { body: TInferPart<B> } : { body?: undefined })
+
+export type TEndpointConfig<E extends TEndpoint> = Omit<THttpConfig<TEndpointResponse<E>>, 'params'>
+
+/** Arguments of a client method, the input is optional when the endpoint has no path params nor body */
+export type TEndpointArgs<E extends TEndpoint> =
+  object extends TEndpointInput<E>
+    ? [input?: TEndpointInput<E>, config?: TEndpointConfig<E>]
+    : [input: TEndpointInput<E>, config?: TEndpointConfig<E>]
+
+export type TEndpointClient<E extends TEndpoints> = {
+  [K in keyof E]: (...args: TEndpointArgs<E[K]>) => Promise<TApiResponse<TEndpointResponse<E[K]>>>
+}
+
+/**
+ * Creates a type-only marker for an endpoint part without a runtime schema.
+ *
+ * @example
+ * ```ts
+ * defineEndpoints({ listProducts: { path: '/products', response: typed<Product[]>() } })
+ * ```
+ */
+export const typed = <T>(): TTyped<T> => ({})
+
+/**
+ * Declares a typed endpoint contract. The definitions are returned as is, with their literal types preserved
+ * so that clients and hooks built from them type-check path params, query, body and response.
+ *
+ * @param endpoints - Endpoint definitions keyed by name.
+ *
+ * @example
+ * ```ts
+ * const productEndpoints = defineEndpoints({
+ *   getProduct: { path: '/products/:id', response: ProductSchema },
+ *   listProducts: { path: '/products', response: typed<Product[]>(), query: typed<{ page?: number }>() },
+ *   updateProduct: { method: 'PUT', path: '/products/:id', body: typed<TProductInput>(), response: ProductSchema },
+ * })
+ * ```
+ */
+export const defineEndpoints = <const E extends TEndpoints>(endpoints: E): E => endpoints
+
+/**
+ * Builds the request configuration of an endpoint call.
+ *
+ * @param endpoint - The endpoint definition.
+ * @param input - Path params, query and body of the call.
+ * @param config - Additional request configuration.
+ */
+export const endpointRequest = <E extends TEndpoint>(
+  endpoint: E,
+  input: { pathParams?: Record<string, TPrimitive>; query?: TQueryParams; body?: unknown } = {},
+  config: TEndpointConfig<E> = {},
+): TApiConfig<TEndpointResponse<E>> => ({
+  ...config,
+  url: endpoint.path,
+  pathParams: input.pathParams,
+  method: endpoint.method ?? 'GET',
+  params: input.query,
+  body: input.body as TApiConfig['body'],
+  schema:
+    config.schema ?? (isSchema(endpoint.response) ? (endpoint.response as TSchema<TEndpointResponse<E>>) : undefined),
+})
+
+/**
+ * Creates a typed client calling every endpoint of a contract through an instance.
+ *
+ * @param instance - The instance sending the requests, e.g. `http` or `http.create(options)`.
+ * @param endpoints - The contract created with {@link defineEndpoints}.
+ *
+ * @example
+ * ```ts
+ * const products = createEndpointClient(http, productEndpoints)
+ * const { data } = await products.getProduct({ pathParams: { id: 42 } })
+ * ```
+ */
+export const createEndpointClient = <E extends TEndpoints>(
+  instance: Pick<ApiInstance, 'request'>,
+  endpoints: E,
+): TEndpointClient<E> =>
+  Object.fromEntries(
+    Object.entries(endpoints).map(([name, endpoint]) => [
+      name,
+      async (input?: Parameters<typeof endpointRequest>[1], config?: TEndpointConfig<TEndpoint>) =>
+        instance.request(endpointRequest(endpoint, input, config)),
+    ]),
+  ) as unknown as TEndpointClient<E>
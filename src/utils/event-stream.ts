@@ -0,0 +1,77 @@
+export type TServerEvent<T = unknown> = {
+  /** Event type, `message` when the server did not set one */
+  event: string
+  /** Parsed event data */
+  data: T
+  /** Last event ID received on the connection, sent back as `Last-Event-ID` on reconnect */
+  id?: string
+}
+
+export type TEventStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export type TEventStreamMessage = {
+  event: string
+  /** Undefined for blocks that only set `retry` */
+  data?: string
+  id?: string
+  retry?: number
+}
+
+/**
+ * Parses a `text/event-stream` body, yielding every dispatched message as soon as it is complete.
+ * Follows the SSE parsing rules: comments are ignored, multi-line `data` is joined with `\n`, the last `id`
+ * is carried over to following messages and blocks without `data` are only yielded when they set `retry`.
+ *
+ * @param stream - The response body stream.
+ * @returns An async iterator over the raw messages.
+ */
+export async function* readEventStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<TEventStreamMessage> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let done = false
+  let trailingCR = false
+  let data: string[] = []
+  let event = ''
+  let id: string | undefined
+  let retry: number | undefined
+
+  try {
+    while (!done) {
+      const chunk = await reader.read()
+      done = chunk.done
+      let text = chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true })
+      // a `\r\n` split across two chunks is a single line break
+      if (trailingCR && text.startsWith('\n')) text = text.slice(1)
+      trailingCR = text.endsWith('\r')
+      buffer += text
+
+      const lines = buffer.split(/\r\n|\r|\n/)
+      buffer = done ? '' : lines.pop()!
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length) yield { event: event || 'message', data: data.join('\n'), id, retry }
+          else if (retry !== undefined) yield { event: event || 'message', id, retry }
+          data = []
+          event = ''
+          retry = undefined
+          continue
+        }
+        if (line.startsWith(':')) continue
+
+        const separator = line.indexOf(':')
+        const field = separator === -1 ? line : line.slice(0, separator)
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+        if (field === 'data') data.push(value)
+        else if (field === 'event') event = value
+        else if (field === 'id' && !value.includes('\0')) id = value
+        else if (field === 'retry' && /^\d+$/.test(value)) retry = Number(value)
+      }
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => undefined)
+    reader.releaseLock()
+  }
+}
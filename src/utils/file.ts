@@ -152,6 +152,46 @@ export function getExtension(mimeType: string): string {
   return 'bin'
 }
 
+/**
+ * Reads the filename of a `Content-Disposition` header. The RFC 5987 `filename*=UTF-8''...` form is preferred over
+ * the plain `filename` parameter, quoted values are unescaped and path segments are stripped.
+ *
+ * @param header - The `Content-Disposition` header value
+ * @returns The filename, or undefined when the header has none
+ *
+ * @example
+ * ```ts
+ * parseContentDisposition(`attachment; filename="report.pdf"; filename*=UTF-8''laporan%20Q1.pdf`) // 'laporan Q1.pdf'
+ * ```
+ */
+export function parseContentDisposition(header: string | null | undefined): string | undefined {
+  if (!header) return undefined
+
+  let filename: string | undefined
+  let extended: string | undefined
+  const pattern = /;\s*(filename\*?)\s*=\s*("((?:[^"\\]|\\.)*)"|[^;]*)/gi
+  for (let match = pattern.exec(header); match; match = pattern.exec(header)) {
+    const value = match[3] !== undefined ? match[3].replace(/\\(.)/g, '$1') : match[2].trim()
+    if (match[1].endsWith('*')) {
+      const encoded = /^([\w!#$%&+^`{}~-]*)'[\w-]*'(.*)$/.exec(value)
+      if (!encoded) continue
+      try {
+        extended =
+          encoded[1].toLowerCase() === 'iso-8859-1'
+            ? encoded[2].replace(/%([\dA-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+            : decodeURIComponent(encoded[2])
+      } catch {
+        // malformed percent-encoding, fall back to the plain filename
+      }
+    } else {
+      filename = value
+    }
+  }
+
+  const name = (extended ?? filename)?.split(/[/\\]/).pop()?.trim()
+  return name || undefined
+}
+
 /**
  * Generates a suggested filename from a Blob based on its MIME type
  *
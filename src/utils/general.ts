@@ -91,3 +91,11 @@ export const toWA = (message = '', options: { urlOnly?: boolean; phoneNumber?: s
   if (urlOnly) return whatsappUrl
   window.open(whatsappUrl, '_blank')
 }
+
+/**
+ * Generate a random unique identifier, a UUID when `crypto.randomUUID` is available.
+ */
+export const randomId = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
@@ -0,0 +1,310 @@
+import type { TAdapter, TAdapterRequest, TProgressCallback } from './api'
+import { abortReason, sleep } from './signal'
+
+export type TMockRequest = {
+  /** Upper-cased HTTP method */
+  method: string
+  /** Full request URL */
+  url: string
+  /** Path of the URL, without origin nor query string */
+  path: string
+  /** Query string of the URL */
+  query: URLSearchParams
+  /** Values of the `:name` segments of the matched route */
+  params: Record<string, string>
+  /** Request headers */
+  headers: Record<string, string>
+  /** Serialized request body */
+  body?: globalThis.BodyInit | null
+  /** Request body parsed back: JSON strings are parsed and `URLSearchParams` become plain objects */
+  data: unknown
+}
+
+export type TMockReply = {
+  /** Response status (default: `200`) */
+  status?: number
+  /** Response body, plain objects and arrays are sent as JSON */
+  data?: unknown
+  /** Response headers */
+  headers?: Record<string, string>
+  /** Delay before responding in milliseconds, overrides the route and adapter delay */
+  delay?: number
+  /** Fail like an unreachable server instead of responding */
+  networkError?: boolean
+}
+
+export type TMockResponder =
+  | TMockReply
+  | Response
+  | ((request: TMockRequest) => TMockReply | Response | Promise<TMockReply | Response>)
+
+/**
+ * Matches a request: `*` matches every URL, a path template like `/products/:id` matches the end of the path (so the
+ * `baseURL` can be left out), an absolute URL template matches the whole URL without query string, a `RegExp` is tested
+ * against the full URL and a function receives the request.
+ */
+export type TMockMatcher = string | RegExp | ((request: TMockRequest) => boolean)
+
+export type TMockRouteOptions = {
+  /** Delay before responding in milliseconds */
+  delay?: number
+  /** Number of requests the route answers before it stops matching */
+  times?: number
+  /** Simulate upload and download progress events, spread over the delay */
+  progress?: boolean
+}
+
+export type TMockAdapterOptions = {
+  /** Default delay of every response in milliseconds */
+  delay?: number
+  /** Number of progress events emitted per direction when `progress` is enabled (default: 4) */
+  progressSteps?: number
+  /** Adapter receiving the unmatched requests, which otherwise resolve a `404` response */
+  fallback?: TAdapter
+}
+
+export type TMockAdapter = {
+  /** The adapter to pass to `createApi` or `http.create` */
+  adapter: TAdapter
+  /** Every request received by the adapter, oldest first */
+  readonly history: TMockRequest[]
+  /** Registers a route for a method (`*` for any method) */
+  on: (method: string, matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  get: (matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  post: (matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  put: (matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  patch: (matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  delete: (matcher: TMockMatcher, responder: TMockResponder, options?: TMockRouteOptions) => TMockAdapter
+  /** Removes every route and clears the history */
+  reset: () => void
+  /** Clears the history and keeps the routes */
+  resetHistory: () => void
+}
+
+type TMockRoute = {
+  method: string
+  test: (request: TMockRequest) => Record<string, string> | null
+  responder: TMockResponder
+  options: TMockRouteOptions
+  calls: number
+}
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+const isAbsoluteURL = (url: string) => /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+
+const compileTemplate = (template: string) => {
+  const names: string[] = []
+  const source = template
+    .split(/(:[A-Za-z_]\w*)/)
+    .map(part => {
+      if (!part.startsWith(':')) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      names.push(part.slice(1))
+      return '([^/]+)'
+    })
+    .join('')
+  const pattern = new RegExp(`${isAbsoluteURL(template) ? '^' : ''}${source}/?$`)
+
+  return (target: string) => {
+    const match = pattern.exec(target)
+    if (!match) return null
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]))
+  }
+}
+
+const createTest = (matcher: TMockMatcher): TMockRoute['test'] => {
+  if (matcher === '*') return () => ({})
+  if (matcher instanceof RegExp) return request => (matcher.test(request.url) ? {} : null)
+  if (typeof matcher === 'function') return request => (matcher(request) ? {} : null)
+
+  const match = compileTemplate(matcher)
+  const absolute = isAbsoluteURL(matcher)
+  return request => match(absolute ? request.url.split(/[?#]/)[0] : request.path)
+}
+
+const parseBody = (body: TAdapterRequest['body']) => {
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body)
+    } catch {
+      return body
+    }
+  }
+  if (body instanceof URLSearchParams) return Object.fromEntries(body)
+  return body
+}
+
+const bodySize = (body: globalThis.BodyInit | null | undefined): number => {
+  if (body == null) return 0
+  if (typeof body === 'string') return new TextEncoder().encode(body).byteLength
+  if (body instanceof Blob) return body.size
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength
+  if (body instanceof URLSearchParams) return bodySize(body.toString())
+  if (body instanceof FormData) {
+    let size = 0
+    body.forEach((value, key) => {
+      size += bodySize(key) + bodySize(value)
+    })
+    return size
+  }
+  return 0
+}
+
+const toResponse = (reply: TMockReply) => {
+  const status = reply.status ?? 200
+  const headers = new Headers(reply.headers)
+  let body: globalThis.BodyInit | null = null
+
+  if (!NULL_BODY_STATUSES.includes(status) && reply.data !== undefined) {
+    const { data } = reply
+    if (
+      typeof data === 'string' ||
+      data instanceof Blob ||
+      data instanceof ArrayBuffer ||
+      ArrayBuffer.isView(data) ||
+      data instanceof FormData ||
+      data instanceof URLSearchParams ||
+      data instanceof ReadableStream
+    ) {
+      body = data as globalThis.BodyInit
+    } else {
+      body = JSON.stringify(data)
+      if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json')
+    }
+  }
+
+  return new Response(body, { status, headers })
+}
+
+const emitProgress = async (
+  callback: TProgressCallback,
+  total: number,
+  steps: number,
+  duration: number,
+  signal: AbortSignal,
+) => {
+  for (let step = 1; step <= steps; step++) {
+    await sleep(duration / steps, signal)
+    callback({ loaded: Math.round((total * step) / steps), total, percentage: Math.round((step / steps) * 100) })
+  }
+}
+
+/**
+ * Creates an in-memory adapter answering requests from registered routes, for running the real client pipeline
+ * (interceptors, retries, cache, schemas and hooks) in tests without a server nor patched globals.
+ * The most recently registered matching route answers first.
+ *
+ * @param options - Default delay, progress steps and the adapter of unmatched requests.
+ *
+ * @example
+ * ```ts
+ * const mock = createMockAdapter()
+ * mock
+ *   .get('/products/:id', request => ({ data: { id: Number(request.params.id), name: 'Shoes' } }))
+ *   .post('/orders', { status: 201, data: { id: 1 } }, { delay: 100 })
+ *   .get('/stock', { status: 503 }, { times: 1 })
+ *
+ * const api = http.create({ baseURL: '/api', adapter: mock.adapter })
+ * await api.post('/orders', { productId: 42 })
+ * expect(mock.history.at(-1)?.data).toEqual({ productId: 42 })
+ * ```
+ */
+export const createMockAdapter = (options: TMockAdapterOptions = {}): TMockAdapter => {
+  const routes: TMockRoute[] = []
+  const history: TMockRequest[] = []
+  const steps = Math.max(1, options.progressSteps ?? 4)
+
+  const adapter: TAdapter = async request => {
+    if (request.signal.aborted) throw abortReason(request.signal)
+
+    const url = new URL(request.url, 'http://localhost')
+    const mockRequest: TMockRequest = {
+      method: request.method.toUpperCase(),
+      url: request.url,
+      path: url.pathname,
+      query: url.searchParams,
+      params: {},
+      headers: request.headers,
+      body: request.body,
+      data: parseBody(request.body),
+    }
+    history.push(mockRequest)
+
+    let route: TMockRoute | undefined
+    for (let i = routes.length - 1; i >= 0 && !route; i--) {
+      const candidate = routes[i]
+      if (candidate.method !== '*' && candidate.method !== mockRequest.method) continue
+      if (candidate.options.times !== undefined && candidate.calls >= candidate.options.times) continue
+      const params = candidate.test(mockRequest)
+      if (!params) continue
+      mockRequest.params = params
+      route = candidate
+    }
+
+    if (!route) {
+      if (options.fallback) return options.fallback(request)
+      return toResponse({
+        status: 404,
+        data: { message: `No mock route matches ${mockRequest.method} ${mockRequest.path}` },
+      })
+    }
+
+    route.calls++
+    const { responder } = route
+    const answer =
+      typeof responder === 'function'
+        ? await responder(mockRequest)
+        : responder instanceof Response
+          ? responder.clone()
+          : responder
+    const reply: TMockReply = answer instanceof Response ? {} : answer
+    const delay = reply.delay ?? route.options.delay ?? options.delay ?? 0
+
+    if (route.options.progress && (request.onUpload || request.onDownload)) {
+      const phases = request.onUpload && request.onDownload ? 2 : 1
+      if (request.onUpload) {
+        await emitProgress(request.onUpload, bodySize(request.body), steps, delay / phases, request.signal)
+      }
+      if (reply.networkError) throw new TypeError('Failed to fetch')
+      const response = answer instanceof Response ? answer : toResponse(reply)
+      if (request.onDownload) {
+        const size = bodySize(await response.clone().blob())
+        await emitProgress(request.onDownload, size, steps, delay / phases, request.signal)
+      }
+      return response
+    }
+
+    await sleep(delay, request.signal)
+    if (reply.networkError) throw new TypeError('Failed to fetch')
+    return answer instanceof Response ? answer : toResponse(reply)
+  }
+
+  const mock: TMockAdapter = {
+    adapter,
+    history,
+    on: (method, matcher, responder, routeOptions = {}) => {
+      routes.push({
+        method: method.toUpperCase(),
+        test: createTest(matcher),
+        responder,
+        options: routeOptions,
+        calls: 0,
+      })
+      return mock
+    },
+    get: (matcher, responder, routeOptions) => mock.on('GET', matcher, responder, routeOptions),
+    post: (matcher, responder, routeOptions) => mock.on('POST', matcher, responder, routeOptions),
+    put: (matcher, responder, routeOptions) => mock.on('PUT', matcher, responder, routeOptions),
+    patch: (matcher, responder, routeOptions) => mock.on('PATCH', matcher, responder, routeOptions),
+    delete: (matcher, responder, routeOptions) => mock.on('DELETE', matcher, responder, routeOptions),
+    reset: () => {
+      routes.length = 0
+      history.length = 0
+    },
+    resetHistory: () => {
+      history.length = 0
+    },
+  }
+
+  return mock
+}
@@ -0,0 +1,247 @@
+import type { TApiConfig, TApiResponse } from './api'
+import { isHttpError, isNetworkError, isTimeoutError } from './api-error'
+import { resolveCacheStore, type TCacheStore, type TCacheStoreType, writeCacheStore } from './cache-store'
+import { randomId } from './general'
+import { isNativeBody } from './serializer'
+
+export type TOfflineRequestConfig = Pick<
+  TApiConfig,
+  'url' | 'method' | 'headers' | 'params' | 'pathParams' | 'body' | 'bodyType'
+>
+
+export type TOfflineEntry = {
+  /** Idempotency key sent with every attempt of the request, also identifies the entry */
+  idempotencyKey: string
+  /** Serializable configuration of the queued request */
+  config: TOfflineRequestConfig
+  /** Timestamp when the request was queued */
+  createdAt: number
+  /** Number of failed replays */
+  attempts: number
+}
+
+export type TOfflineQueueState = {
+  /** Queued requests, oldest first */
+  entries: TOfflineEntry[]
+  /** Whether the queue is being replayed */
+  isReplaying: boolean
+  /** Error of the last failed replay, cleared by the next successful one */
+  lastError?: unknown
+}
+
+export type TOfflineQueueOptions = {
+  /** Persistent store of the queued requests (default: `localStorage`) */
+  store?: TCacheStore | TCacheStoreType
+  /** Delay before replaying again after a failed replay while the device reports being online (default: 30s) */
+  retryInterval?: number
+  /** Header carrying the idempotency key (default: `Idempotency-Key`) */
+  idempotencyHeader?: string
+}
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false
+
+/** Bodies surviving a round trip through the persistent store: JSON strings, plain objects and arrays */
+const isPersistable = (body: unknown) => body == null || typeof body === 'string' || !isNativeBody(body)
+
+/** Failures worth replaying later: no response, a timeout, or a retryable status */
+const isQueueable = (error: unknown) =>
+  isNetworkError(error) || isTimeoutError(error) || (isHttpError(error) && error.isRetryable)
+
+/**
+ * Persistent queue of mutations sent while offline or failing on a flaky connection. Queued requests keep their
+ * idempotency key and are replayed in order when the `online` event fires, or on an interval after a failed replay.
+ * Requests rejected by the server on replay (non-retryable status) are dropped and reported through `lastError`.
+ */
+export class OfflineQueue {
+  private entries: TOfflineEntry[] = []
+  private listeners: Set<(state: TOfflineQueueState) => void> = new Set()
+  private state: TOfflineQueueState = { entries: [], isReplaying: false }
+  private isReplaying = false
+  private lastError?: unknown
+  private timer?: ReturnType<typeof setTimeout>
+  private store: TCacheStore
+  private ready: Promise<void>
+  private send: (config: TApiConfig) => Promise<TApiResponse<unknown>>
+  private retryInterval: number
+  private idempotencyHeader: string
+
+  /**
+   * @param send - Sends a request through the owning instance.
+   * @param namespace - Namespace of the persistent store.
+   * @param options - Optional queue configuration.
+   */
+  constructor(
+    send: (config: TApiConfig) => Promise<TApiResponse<unknown>>,
+    namespace: string,
+    options: TOfflineQueueOptions = {},
+  ) {
+    this.send = send
+    this.store = resolveCacheStore(options.store ?? 'localStorage', namespace)
+    this.retryInterval = options.retryInterval ?? 30000
+    this.idempotencyHeader = options.idempotencyHeader ?? 'Idempotency-Key'
+    this.ready = this.load()
+
+    if (typeof window !== 'undefined') window.addEventListener('online', () => void this.replay())
+    void this.replay()
+  }
+
+  /**
+   * Sends a mutation, or queues it when the device is offline, older requests are still queued, or the request fails
+   * without a usable response. Queued requests resolve with `queued: true` and no `data`.
+   * Requests with a non-serializable body (`FormData`, `Blob`, streams) are sent without the queue.
+   *
+   * @template T - Type of the response data.
+   * @param config - The request configuration.
+   */
+  async submit<T>(config: TApiConfig<T>): Promise<TApiResponse<T>> {
+    await this.ready
+
+    const header = Object.keys(config.headers ?? {}).find(
+      name => name.toLowerCase() === this.idempotencyHeader.toLowerCase(),
+    )
+    const idempotencyKey = header ? config.headers![header] : randomId()
+    const request: TApiConfig<T> = {
+      ...config,
+      headers: { [this.idempotencyHeader]: idempotencyKey, ...config.headers },
+    }
+
+    if (!isPersistable(config.body)) return this.send(request) as Promise<TApiResponse<T>>
+
+    if (!isOnline() || this.entries.length) {
+      const response = this.enqueue<T>(request, idempotencyKey)
+      void this.replay()
+      return response
+    }
+
+    try {
+      return (await this.send(request)) as TApiResponse<T>
+    } catch (error) {
+      if (!isQueueable(error)) throw error
+      this.lastError = error
+      const response = this.enqueue<T>(request, idempotencyKey)
+      this.scheduleReplay()
+      return response
+    }
+  }
+
+  /**
+   * Replays the queued requests in order, stopping at the first one that still cannot be delivered.
+   * Called automatically when the `online` event fires.
+   */
+  async replay() {
+    await this.ready
+    if (this.isReplaying || !this.entries.length || !isOnline()) return
+
+    clearTimeout(this.timer)
+    this.timer = undefined
+    this.isReplaying = true
+    this.notify()
+
+    try {
+      while (this.entries.length) {
+        const entry = this.entries[0]
+        try {
+          await this.send({ ...entry.config })
+          this.lastError = undefined
+        } catch (error) {
+          this.lastError = error
+          if (isQueueable(error)) {
+            this.update({ ...entry, attempts: entry.attempts + 1 })
+            this.scheduleReplay()
+            return
+          }
+          // rejected by the server, replaying it again cannot succeed
+        }
+        this.remove(entry.idempotencyKey)
+      }
+    } finally {
+      this.isReplaying = false
+      this.notify()
+    }
+  }
+
+  /**
+   * Returns the current queue state. The same object is returned until the queue changes.
+   */
+  getState(): TOfflineQueueState {
+    return this.state
+  }
+
+  /**
+   * Subscribes to queue changes.
+   *
+   * @param listener - Called with the new state on every change.
+   * @returns A function removing the subscription.
+   */
+  subscribe(listener: (state: TOfflineQueueState) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Removes every queued request without sending it.
+   */
+  async clear() {
+    await this.ready
+    this.entries.forEach(entry => this.persist(store => store.delete(entry.idempotencyKey)))
+    this.entries = []
+    this.lastError = undefined
+    this.notify()
+  }
+
+  private async load() {
+    try {
+      const keys = await this.store.keys()
+      const stored = await Promise.all(keys.map(key => this.store.get<TOfflineEntry>(key)))
+      this.entries = stored.flatMap(entry => (entry ? [entry.data] : [])).sort((a, b) => a.createdAt - b.createdAt)
+    } catch {
+      // an unreadable store starts with an empty queue
+    }
+    this.notify()
+  }
+
+  private enqueue<T>(config: TApiConfig<T>, idempotencyKey: string): TApiResponse<T> {
+    const { url, method, headers, params, pathParams, body, bodyType } = config
+    const entry: TOfflineEntry = {
+      idempotencyKey,
+      config: { url, method, headers, params, pathParams, body, bodyType },
+      createdAt: Date.now(),
+      attempts: 0,
+    }
+    this.entries = [...this.entries, entry]
+    this.persist(store => store.set(idempotencyKey, { data: entry, timestamp: entry.createdAt }))
+    this.notify()
+    return { data: undefined as T, fromCache: false, queued: true }
+  }
+
+  private update(entry: TOfflineEntry) {
+    this.entries = this.entries.map(current => (current.idempotencyKey === entry.idempotencyKey ? entry : current))
+    this.persist(store => store.set(entry.idempotencyKey, { data: entry, timestamp: entry.createdAt }))
+    this.notify()
+  }
+
+  private remove(idempotencyKey: string) {
+    this.entries = this.entries.filter(entry => entry.idempotencyKey !== idempotencyKey)
+    this.persist(store => store.delete(idempotencyKey))
+    this.notify()
+  }
+
+  private persist(run: (store: TCacheStore) => void | Promise<unknown>) {
+    writeCacheStore(this.store, run)
+  }
+
+  private scheduleReplay() {
+    if (this.timer) return
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      void this.replay()
+    }, this.retryInterval)
+  }
+
+  private notify() {
+    this.state = { entries: this.entries, isReplaying: this.isReplaying, lastError: this.lastError }
+    this.listeners.forEach(listener => listener(this.state))
+  }
+}
@@ -0,0 +1,145 @@
+import type { TProgressCallback } from './api'
+import { parseURL } from './url'
+
+let requestStreams: boolean | undefined
+
+/**
+ * Builds a progress event, the percentage stays at `0` while the total is unknown.
+ *
+ * @param loaded - Bytes transferred so far.
+ * @param total - Bytes to transfer, `0` when unknown.
+ */
+export const toProgress = (loaded: number, total: number) => ({
+  loaded,
+  total,
+  percentage: total ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+})
+
+const countBytes = (onChunk: (bytes: number) => void) =>
+  new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk)
+      onChunk(chunk.byteLength)
+    },
+  })
+
+/**
+ * Whether `fetch` accepts a `ReadableStream` request body, detected once like the platforms recommend: the `duplex`
+ * option is read and the stream is not stringified into a `text/plain` body.
+ */
+export const supportsRequestStreams = () => {
+  if (requestStreams === undefined) {
+    try {
+      let duplexAccessed = false
+      const hasContentType = new Request('http://localhost', {
+        method: 'POST',
+        body: new ReadableStream(),
+        get duplex() {
+          duplexAccessed = true
+          return 'half'
+        },
+      } as globalThis.RequestInit).headers.has('Content-Type')
+      requestStreams = duplexAccessed && !hasContentType
+    } catch {
+      requestStreams = false
+    }
+  }
+  return requestStreams
+}
+
+/**
+ * Protocol of the latest connection to the origin of a URL, from the navigation and resource timing entries.
+ */
+const originProtocol = (url: string) => {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') return undefined
+  const origin = parseURL(url)?.origin
+  if (!origin) return undefined
+
+  const entries = [
+    ...performance.getEntriesByType('navigation'),
+    ...performance.getEntriesByType('resource'),
+  ] as PerformanceResourceTiming[]
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].nextHopProtocol && parseURL(entries[i].name)?.origin === origin) return entries[i].nextHopProtocol
+  }
+  return undefined
+}
+
+/**
+ * Whether the body of a request to the URL can be streamed, decided before sending so a refused request is never sent
+ * twice. Browsers supporting streaming bodies (Chromium) refuse them on HTTP/1.1 connections, so they are only streamed
+ * to origins already reached over HTTP/2 or HTTP/3. Environments without `XMLHttpRequest` (Node, workers) always
+ * stream them when supported.
+ *
+ * @param url - Full URL of the request.
+ */
+export const canStreamRequestBody = (url: string) => {
+  if (!supportsRequestStreams()) return false
+  if (typeof XMLHttpRequest === 'undefined') return true
+
+  const protocol = originProtocol(url)
+  return protocol === 'h2' || !!protocol?.startsWith('h3')
+}
+
+/**
+ * Turns the body of a request into a stream reporting upload progress as `fetch` reads it. The total is the body size,
+ * or `0` for a `ReadableStream` body, and the `Content-Type` `fetch` would derive from the body is kept.
+ *
+ * @param init - The request options.
+ * @param onUpload - Called with the progress after every sent chunk.
+ * @returns The request options with a streaming body.
+ */
+export const streamRequestBody = async (
+  init: globalThis.RequestInit,
+  onUpload: TProgressCallback,
+): Promise<globalThis.RequestInit> => {
+  if (init.body == null) return init
+
+  const source = init.body instanceof ReadableStream ? init.body : await new Response(init.body).blob()
+  const total = source instanceof Blob ? source.size : 0
+  const headers = new Headers(init.headers)
+  if (source instanceof Blob && source.type && !headers.has('Content-Type')) headers.set('Content-Type', source.type)
+
+  let loaded = 0
+  const body = (source instanceof Blob ? source.stream() : source).pipeThrough(
+    countBytes(bytes => {
+      loaded += bytes
+      onUpload(toProgress(loaded, total))
+    }),
+  )
+
+  return { ...init, headers, body, duplex: 'half' } as globalThis.RequestInit
+}
+
+/**
+ * Size of the decoded body of a response from `Content-Length`, or `0` when it is unknown or describes the encoded body.
+ *
+ * @param headers - The response headers.
+ */
+export const decodedLength = (headers: Headers) => {
+  const encoding = headers.get('content-encoding')
+  return encoding && encoding !== 'identity' ? 0 : Number(headers.get('content-length')) || 0
+}
+
+/**
+ * Wraps a response so reading its body reports download progress. The total comes from `Content-Length`, or is `0`
+ * when it is unknown or describes the encoded body.
+ *
+ * @param response - The received response.
+ * @param onDownload - Called with the progress after every received chunk.
+ * @returns A response with the same status and headers.
+ */
+export const trackResponseBody = (response: Response, onDownload: TProgressCallback) => {
+  if (!response.body) return response
+
+  const total = decodedLength(response.headers)
+  let loaded = 0
+  const body = response.body.pipeThrough(
+    countBytes(bytes => {
+      loaded += bytes
+      onDownload(toProgress(loaded, total))
+    }),
+  )
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
@@ -0,0 +1,102 @@
+import { abortReason } from './signal'
+
+export type TRequestPriority = 'high' | 'normal' | 'low'
+
+export type TRequestQueueOptions = {
+  /** Maximum number of requests in flight at once (default: unlimited) */
+  maxConcurrent?: number
+  /** Maximum number of requests in flight at once to the same host (default: unlimited) */
+  maxPerHost?: number
+}
+
+type TQueuedRequest = {
+  host: string
+  rank: number
+  start: (release: () => void) => void
+}
+
+const PRIORITY_RANK: Record<TRequestPriority, number> = { high: 0, normal: 1, low: 2 }
+
+/**
+ * Limits the number of concurrent requests, globally and per host. Waiting requests start by priority, then in
+ * arrival order, and leave the queue when their signal aborts.
+ */
+export class RequestQueue {
+  private active = 0
+  private activePerHost: Map<string, number> = new Map()
+  private waiting: TQueuedRequest[] = []
+  private maxConcurrent: number
+  private maxPerHost: number
+
+  constructor(options: TRequestQueueOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent || Infinity
+    this.maxPerHost = options.maxPerHost || Infinity
+  }
+
+  /** Number of requests waiting for a slot */
+  get pending() {
+    return this.waiting.length
+  }
+
+  /**
+   * Waits for a free slot.
+   *
+   * @param host - Host of the request URL.
+   * @param priority - Priority of the request (default: `normal`).
+   * @param signal - Removes the request from the queue when aborted.
+   * @returns A function releasing the slot, safe to call more than once.
+   */
+  acquire(host: string, priority: TRequestPriority = 'normal', signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal))
+    if (this.hasSlot(host)) return Promise.resolve(this.occupy(host))
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(request => request !== queued)
+        reject(abortReason(signal!))
+      }
+      const queued: TQueuedRequest = {
+        host,
+        rank: PRIORITY_RANK[priority] ?? PRIORITY_RANK.normal,
+        start: release => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(release)
+        },
+      }
+
+      const index = this.waiting.findIndex(request => request.rank > queued.rank)
+      if (index === -1) this.waiting.push(queued)
+      else this.waiting.splice(index, 0, queued)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private hasSlot(host: string) {
+    return this.active < this.maxConcurrent && (this.activePerHost.get(host) ?? 0) < this.maxPerHost
+  }
+
+  private occupy(host: string) {
+    this.active++
+    this.activePerHost.set(host, (this.activePerHost.get(host) ?? 0) + 1)
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.active--
+      const count = (this.activePerHost.get(host) ?? 1) - 1
+      if (count) this.activePerHost.set(host, count)
+      else this.activePerHost.delete(host)
+      this.drain()
+    }
+  }
+
+  private drain() {
+    while (this.active < this.maxConcurrent) {
+      const index = this.waiting.findIndex(request => this.hasSlot(request.host))
+      if (index === -1) return
+      const [next] = this.waiting.splice(index, 1)
+      next.start(this.occupy(next.host))
+    }
+  }
+}
@@ -0,0 +1,81 @@
+export type TSchemaIssue = {
+  /** Description of the issue */
+  readonly message: string
+  /** Path of the invalid value inside the data */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/**
+ * A validator implementing the Standard Schema v1 interface (zod, valibot, arktype, ...).
+ */
+export type TStandardSchema<TOutput = unknown> = {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | { readonly value: TOutput; readonly issues?: undefined }
+      | { readonly issues: ReadonlyArray<TSchemaIssue> }
+      | Promise<
+          { readonly value: TOutput; readonly issues?: undefined } | { readonly issues: ReadonlyArray<TSchemaIssue> }
+        >
+    readonly types?: { readonly input: unknown; readonly output: TOutput }
+  }
+}
+
+/** A Standard Schema validator, or a function returning the parsed data and throwing when it is invalid */
+export type TSchema<T> = TStandardSchema<T> | ((data: unknown) => T | Promise<T>)
+
+/** How a failed validation is reported: reject with `ValidationError`, or warn and resolve the unvalidated data */
+export type TSchemaMode = 'throw' | 'warn'
+
+export type TInferSchema<S> =
+  S extends TStandardSchema<infer O> ? O : S extends (data: unknown) => infer O ? Awaited<O> : never
+
+export type TSchemaResult<T> = { value: T; issues?: undefined } | { issues: TSchemaIssue[]; cause?: unknown }
+
+const isStandardSchema = <T>(schema: TSchema<T>): schema is TStandardSchema<T> =>
+  typeof schema === 'object' && schema !== null && '~standard' in schema
+
+/**
+ * Checks whether a value can be used as a `schema`: a Standard Schema validator or a parse function.
+ *
+ * @param value - The value to check.
+ */
+export const isSchema = (value: unknown): value is TSchema<unknown> =>
+  typeof value === 'function' || (typeof value === 'object' && value !== null && '~standard' in value)
+
+/**
+ * Runs a schema against data, normalizing Standard Schema results and thrown parse errors into issues.
+ *
+ * @param schema - A Standard Schema validator or a parse function.
+ * @param data - The data to validate.
+ * @returns The parsed value, or the issues when the data is invalid.
+ */
+export const runSchema = async <T>(schema: TSchema<T>, data: unknown): Promise<TSchemaResult<T>> => {
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(data)
+    if (result.issues) return { issues: [...result.issues] }
+    return { value: result.value }
+  }
+
+  try {
+    return { value: await schema(data) }
+  } catch (error) {
+    return { issues: [{ message: error instanceof Error ? error.message : String(error) }], cause: error }
+  }
+}
+
+/**
+ * Formats an issue path as `items[0].price`.
+ *
+ * @param issue - A schema issue.
+ */
+export const formatIssuePath = (issue: TSchemaIssue) =>
+  (issue.path ?? [])
+    .map(segment => (typeof segment === 'object' ? segment.key : segment))
+    .reduce<string>(
+      (path, key) => (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${String(key)}` : String(key)),
+      '',
+    )
@@ -0,0 +1,246 @@
+import type { TPrimitive } from '@/types'
+
+export type TRequestBody = globalThis.BodyInit | object | null
+
+export type TBodyType = 'json' | 'urlencoded' | 'form-data'
+
+export type TBodySerializer = (body: unknown) => globalThis.BodyInit
+
+export type TQueryValue = TPrimitive | Date | null | undefined | TQueryValue[] | { [key: string]: TQueryValue }
+
+export type TQueryParams = Record<string, TQueryValue>
+
+export type TArrayFormat = 'comma' | 'repeat' | 'brackets' | 'indices'
+
+export type TParamsSerializerOptions = {
+  /** How arrays are written: `a=1,2`, `a=1&a=2`, `a[]=1&a[]=2` or `a[0]=1&a[1]=2` (default: `comma`) */
+  arrayFormat?: TArrayFormat
+  /** How dates are written (default: ISO string) */
+  serializeDate?: (date: Date) => string
+}
+
+/** Serialization options, or a function returning the query string (without `?`) */
+export type TParamsSerializer = TParamsSerializerOptions | ((params: TQueryParams) => string)
+
+const BODY_TYPES: Record<TBodyType, string> = {
+  json: 'application/json',
+  urlencoded: 'application/x-www-form-urlencoded',
+  'form-data': 'multipart/form-data',
+}
+
+const flatten = (value: unknown, key: string, append: (key: string, value: string | Blob) => void) => {
+  if (value === undefined || value === null) return
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    append(key, value)
+  } else if (value instanceof Date) {
+    append(key, value.toISOString())
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${key}[${index}]`, append))
+  } else if (typeof value === 'object') {
+    Object.entries(value).forEach(([name, item]) => flatten(item, key ? `${key}[${name}]` : name, append))
+  } else {
+    append(key, String(value))
+  }
+}
+
+/**
+ * Builds a `FormData` from a (nested) object. Nested keys use the bracket notation (`user[address][city]`,
+ * `items[0][id]`), `File` and `Blob` values are appended as files, dates as ISO strings,
+ * and `null` / `undefined` values are skipped.
+ *
+ * @param data - The object to convert.
+ * @param form - Optional existing `FormData` to append to.
+ * @returns The populated `FormData`.
+ *
+ * @example
+ * ```ts
+ * const form = toFormData({ name: 'Catalog', cover: file, tags: ['new', 'promo'], meta: { lang: 'id' } })
+ * // name, cover (file), tags[0], tags[1], meta[lang]
+ * ```
+ */
+export const toFormData = (data: Record<string, unknown>, form: FormData = new FormData()) => {
+  flatten(data, '', (key, value) => form.append(key, value))
+  return form
+}
+
+/**
+ * Builds `URLSearchParams` from a (nested) object using the same bracket notation as {@link toFormData}.
+ *
+ * @param data - The object to convert.
+ * @returns The populated `URLSearchParams`.
+ * @throws TypeError when the object contains a `File` or `Blob`.
+ */
+export const toURLSearchParams = (data: Record<string, unknown>) => {
+  const params = new URLSearchParams()
+  flatten(data, '', (key, value) => {
+    if (typeof value !== 'string') throw new TypeError(`Cannot URL encode file field "${key}", use form-data instead`)
+    params.append(key, value)
+  })
+  return params
+}
+
+/**
+ * Built-in body serializers keyed by content type.
+ */
+export const defaultSerializers: Record<string, TBodySerializer> = {
+  'application/json': body => JSON.stringify(body),
+  'application/x-www-form-urlencoded': body => toURLSearchParams(body as Record<string, unknown>),
+  'multipart/form-data': body => toFormData(body as Record<string, unknown>),
+}
+
+/**
+ * Checks whether a body is a `ReadableStream`, which can only be read once and needs `duplex: 'half'`.
+ *
+ * @param body - The request body.
+ */
+export const isStreamBody = (body: unknown): body is ReadableStream =>
+  typeof ReadableStream !== 'undefined' && body instanceof ReadableStream
+
+/**
+ * Checks whether a body can be sent by `fetch` as is.
+ *
+ * @param body - The request body.
+ */
+export const isNativeBody = (body: unknown): body is globalThis.BodyInit =>
+  typeof body === 'string' ||
+  (typeof FormData !== 'undefined' && body instanceof FormData) ||
+  (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+  (typeof Blob !== 'undefined' && body instanceof Blob) ||
+  isStreamBody(body) ||
+  body instanceof ArrayBuffer ||
+  ArrayBuffer.isView(body)
+
+/**
+ * Serializes a request body and resolves its `Content-Type` header.
+ *
+ * - Native bodies (`FormData`, `URLSearchParams`, `Blob`, `ArrayBuffer`, typed arrays, streams, strings) are sent
+ *   untouched, and their content type is left to the platform (strings default to `application/json`).
+ * - Other values are serialized by the serializer registered for the explicit `Content-Type` header,
+ *   or for `bodyType` (default `json`). Any unregistered `+json` content type falls back to `JSON.stringify`.
+ *
+ * @param body - The request body.
+ * @param headers - The request headers, an explicit `Content-Type` always wins.
+ * @param options - Optional `bodyType` and serializer registry.
+ * @returns The serialized body and the final headers.
+ */
+export const serializeBody = (
+  body: TRequestBody | undefined,
+  headers: Record<string, string> = {},
+  options: { bodyType?: TBodyType; serializers?: Record<string, TBodySerializer> } = {},
+): { body?: globalThis.BodyInit; headers: Record<string, string> } => {
+  if (body === undefined || body === null) return { headers }
+
+  const headerName = Object.keys(headers).find(key => key.toLowerCase() === 'content-type')
+  const explicitType = headerName ? headers[headerName] : undefined
+  const withoutType = () => {
+    const rest = { ...headers }
+    if (headerName) delete rest[headerName]
+    return rest
+  }
+
+  if (isNativeBody(body)) {
+    if (typeof body !== 'string' || explicitType) return { body, headers }
+    return { body, headers: { 'Content-Type': BODY_TYPES.json, ...headers } }
+  }
+
+  const contentType = explicitType ?? BODY_TYPES[options.bodyType ?? 'json']
+  const mimeType = contentType.split(';')[0].trim().toLowerCase()
+  const serializers = { ...defaultSerializers, ...options.serializers }
+  const serializerKey = Object.keys(serializers).find(key => key.toLowerCase() === mimeType)
+  const serializer = serializerKey
+    ? serializers[serializerKey]
+    : mimeType.endsWith('+json')
+      ? serializers['application/json']
+      : undefined
+
+  if (!serializer) throw new TypeError(`No body serializer registered for content type "${mimeType}"`)
+
+  const serialized = serializer(body)
+  if (typeof FormData !== 'undefined' && serialized instanceof FormData) {
+    return { body: serialized, headers: withoutType() }
+  }
+  return { body: serialized, headers: { ...withoutType(), 'Content-Type': contentType } }
+}
+
+const isScalar = (value: TQueryValue): value is TPrimitive | Date =>
+  value instanceof Date || (typeof value !== 'object' && value !== undefined)
+
+const appendQuery = (value: TQueryValue, key: string, options: TParamsSerializerOptions, pairs: string[]): void => {
+  if (value === undefined || value === null) return
+
+  const encode = (item: TPrimitive | Date) =>
+    encodeURIComponent(item instanceof Date ? (options.serializeDate?.(item) ?? item.toISOString()) : item)
+
+  if (Array.isArray(value)) {
+    const items = value.filter(item => item !== undefined && item !== null)
+    const arrayFormat = options.arrayFormat ?? 'comma'
+
+    if (arrayFormat === 'comma' && items.every(isScalar)) {
+      if (items.length) pairs.push(`${encodeURIComponent(key)}=${items.map(encode).join(',')}`)
+      return
+    }
+    items.forEach((item, index) => {
+      if (!isScalar(item) || arrayFormat === 'indices') {
+        appendQuery(item, `${key}[${index}]`, options, pairs)
+      } else {
+        appendQuery(item, arrayFormat === 'brackets' ? `${key}[]` : key, options, pairs)
+      }
+    })
+  } else if (isScalar(value)) {
+    pairs.push(`${encodeURIComponent(key)}=${encode(value)}`)
+  } else {
+    Object.entries(value).forEach(([name, item]) => appendQuery(item, `${key}[${name}]`, options, pairs))
+  }
+}
+
+/**
+ * Serializes query parameters into a query string (without the leading `?`).
+ * `null` and `undefined` values are skipped, nested objects use the bracket notation (`filter[status]=active`)
+ * and array items that are objects are always indexed (`items[0][id]=1`).
+ *
+ * @param params - The query parameters.
+ * @param serializer - Serialization options or a custom serializer function.
+ * @returns The encoded query string.
+ *
+ * @example
+ * ```ts
+ * serializeParams({ tags: ['a', 'b'], filter: { status: 'active' }, page: null })
+ * // tags=a,b&filter%5Bstatus%5D=active
+ *
+ * serializeParams({ tags: ['a', 'b'] }, { arrayFormat: 'brackets' })
+ * // tags%5B%5D=a&tags%5B%5D=b
+ * ```
+ */
+export const serializeParams = (params: TQueryParams, serializer: TParamsSerializer = {}) => {
+  if (typeof serializer === 'function') return serializer(params)
+
+  const pairs: string[] = []
+  Object.entries(params).forEach(([key, value]) => appendQuery(value, key, serializer, pairs))
+  return pairs.join('&')
+}
+
+/**
+ * Replaces the `:name` segments of a path template with their URL-encoded values. Only the pathname is interpolated,
+ * the scheme and authority of an absolute URL and the query string or fragment are kept as is.
+ *
+ * @param path - The path template, e.g. `/users/:id/orders/:orderId`.
+ * @param pathParams - The values of the path parameters.
+ * @returns The interpolated path.
+ * @throws TypeError when a parameter of the template has no value.
+ *
+ * @example
+ * ```ts
+ * interpolatePath('/users/:id/files/:name', { id: 42, name: 'a b.pdf' }) // '/users/42/files/a%20b.pdf'
+ * ```
+ */
+export const interpolatePath = (path: string, pathParams: Record<string, TPrimitive> = {}) => {
+  const [, origin, pathname, rest] = /^([a-z][a-z\d+.-]*:\/\/[^/?#]*)?([^?#]*)(.*)$/i.exec(path)!
+  const interpolated = pathname.replace(/:([A-Za-z_]\w*)/g, (_, name: string) => {
+    const value = pathParams[name]
+    if (value === undefined || value === null || value === '') {
+      throw new TypeError(`Missing path param "${name}" for "${path}"`)
+    }
+    return encodeURIComponent(String(value))
+  })
+  return `${origin ?? ''}${interpolated}${rest}`
+}
@@ -0,0 +1,65 @@
+/**
+ * Returns the reason a signal was aborted with, or a native `AbortError` when it has none.
+ *
+ * @param signal - An aborted signal.
+ */
+export const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError')
+
+/**
+ * Resolves after a delay, or rejects with the abort reason as soon as the signal is aborted.
+ *
+ * @param ms - Delay in milliseconds.
+ * @param signal - Cancels the wait.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortReason(signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/**
+ * Creates a signal aborted with its parent signal or after a timeout, whichever comes first.
+ *
+ * @param signal - Parent signal, its abort reason is forwarded.
+ * @param timeout - Milliseconds before the signal times out, none when omitted or `0`.
+ */
+export const linkSignal = (signal?: AbortSignal, timeout?: number) => {
+  const controller = new AbortController()
+  let timedOut = false
+
+  const onAbort = () => controller.abort(signal!.reason)
+  if (signal?.aborted) {
+    onAbort()
+  } else if (signal) {
+    signal.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const timer =
+    timeout && timeout > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort(new DOMException('The operation timed out.', 'AbortError'))
+        }, timeout)
+      : undefined
+
+  return {
+    signal: controller.signal,
+    isTimedOut: () => timedOut,
+    /** Stops the timeout and keeps forwarding aborts, e.g. while the response body is read */
+    clearTimer: () => clearTimeout(timer),
+    /** Stops the timeout and stops listening to the parent signal, which may outlive the request */
+    clear: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
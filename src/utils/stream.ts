@@ -0,0 +1,40 @@
+/**
+ * Reads a newline-delimited JSON stream, yielding every parsed line as soon as it arrives.
+ * Blank lines are skipped. Breaking out of the loop cancels the stream.
+ *
+ * @template T - Type of a single line.
+ * @param stream - The response body stream.
+ * @returns An async iterator over the parsed lines.
+ * @throws SyntaxError when a line is not valid JSON.
+ *
+ * @example
+ * ```ts
+ * const { data } = await http.get<ReadableStream<Uint8Array>>('/exports/orders', { responseType: 'stream' })
+ * for await (const order of readNDJSON<Order>(data)) {
+ *   rows.push(order)
+ * }
+ * ```
+ */
+export async function* readNDJSON<T>(stream: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let done = false
+
+  try {
+    while (!done) {
+      const chunk = await reader.read()
+      done = chunk.done
+      buffer += chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true })
+
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop()!
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T
+      }
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => undefined)
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,145 @@
+import type { TApiConfig, TApiResponse, TProgressCallback, TRetryConfig } from './api'
+import { randomId } from './general'
+
+export type TUploadContext = {
+  /** The uploaded file */
+  file: Blob
+  /** Identifier of the upload, sent with every chunk */
+  uploadId: string
+  /** Endpoint URL of the upload */
+  url: string
+}
+
+export type TUploadChunk = TUploadContext & {
+  /** Position of the chunk, starting from 0 at the resume offset */
+  index: number
+  /** Offset of the first byte of the chunk */
+  start: number
+  /** Offset after the last byte of the chunk */
+  end: number
+  /** Content of the chunk */
+  blob: Blob
+}
+
+export type TUploadOptions<T = unknown> = {
+  /** Size of a chunk in bytes (default: 5 MB) */
+  chunkSize?: number
+  /** Number of chunks uploaded at once (default: 3) */
+  concurrency?: number
+  /** HTTP method of the chunk requests (default: `PUT`) */
+  method?: 'POST' | 'PUT' | 'PATCH'
+  /** Additional headers of every chunk request */
+  headers?: Record<string, string>
+  /** Retry attempts of a single chunk, or a full retry policy (default: 3) */
+  retry?: number | TRetryConfig
+  /** Identifier of the upload, pass the one of an interrupted upload to resume it (default: random) */
+  uploadId?: string
+  /** Offset to resume from, or a function asking the server how many bytes it already received */
+  offset?: number | ((context: TUploadContext) => number | Promise<number>)
+  /** Customizes the request of a chunk, e.g. to send it to a presigned URL or as `FormData` */
+  chunkRequest?: (
+    chunk: TUploadChunk,
+  ) => Partial<Omit<TApiConfig, 'schema' | 'schemaMode' | 'signal' | 'onUpload' | 'onDownload'>>
+  /** Request sent once every chunk is uploaded, its response resolves the upload */
+  complete?: (context: TUploadContext & { chunks: number }) => TApiConfig<T> | undefined
+  /** Abort signal cancelling every pending chunk */
+  signal?: AbortSignal
+  /** Aggregate progress of the whole file, including the resumed offset */
+  onUpload?: TProgressCallback
+  /** Called after every uploaded chunk, e.g. to persist the upload state */
+  onChunk?: (chunk: TUploadChunk) => void
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+
+/**
+ * Uploads a file in chunks with limited parallelism, retrying every chunk on its own.
+ * Each chunk is sent with `Content-Range: bytes start-end/size` and `X-Upload-Id` headers unless `chunkRequest`
+ * overrides them. A failing chunk aborts the others and rejects with its error.
+ *
+ * @template T - Type of the response data.
+ * @param send - Sends a request through an instance.
+ * @param url - The upload endpoint URL.
+ * @param file - The file or blob to upload.
+ * @param options - Chunking, resume and progress options.
+ * @returns The response of the `complete` request, or of the chunk finishing last.
+ */
+export const uploadInChunks = async <T>(
+  send: <R>(config: TApiConfig<R>) => Promise<TApiResponse<R>>,
+  url: string,
+  file: Blob,
+  options: TUploadOptions<T> = {},
+): Promise<TApiResponse<T>> => {
+  const { concurrency = 3, method = 'PUT', retry = 3, onUpload, onChunk } = options
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+  const context: TUploadContext = { file, uploadId: options.uploadId ?? randomId(), url }
+
+  const resumeOffset = typeof options.offset === 'function' ? await options.offset(context) : (options.offset ?? 0)
+  const offset = Math.min(file.size, Math.max(0, resumeOffset))
+  const chunks: TUploadChunk[] = []
+  for (let start = offset; start < file.size; start += chunkSize) {
+    const end = Math.min(file.size, start + chunkSize)
+    chunks.push({ ...context, index: chunks.length, start, end, blob: file.slice(start, end) })
+  }
+
+  const loaded = chunks.map(() => 0)
+  const report = () => {
+    if (!onUpload) return
+    const total = file.size
+    const sent = offset + loaded.reduce((sum, bytes) => sum + bytes, 0)
+    onUpload({ loaded: sent, total, percentage: total ? Math.round((sent / total) * 100) : 100 })
+  }
+
+  const controller = new AbortController()
+  const abort = () => controller.abort(options.signal?.reason)
+  if (options.signal?.aborted) abort()
+  else options.signal?.addEventListener('abort', abort, { once: true })
+
+  const chunkRetry: TRetryConfig =
+    typeof retry === 'number' ? { limit: retry, methods: [method] } : { methods: [method], ...retry }
+  let last: TApiResponse<T> | undefined
+  let next = 0
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++]
+      last = await send<T>({
+        url,
+        method,
+        body: chunk.blob,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${chunk.start}-${chunk.end - 1}/${file.size}`,
+          'X-Upload-Id': context.uploadId,
+          ...options.headers,
+        },
+        retry: chunkRetry,
+        ...options.chunkRequest?.(chunk),
+        signal: controller.signal,
+        onUpload: onUpload
+          ? progress => {
+              loaded[chunk.index] = Math.min(progress.loaded, chunk.end - chunk.start)
+              report()
+            }
+          : undefined,
+      })
+      loaded[chunk.index] = chunk.end - chunk.start
+      report()
+      onChunk?.(chunk)
+    }
+  }
+
+  try {
+    report()
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, chunks.length)) }, worker))
+  } catch (error) {
+    controller.abort()
+    throw error
+  } finally {
+    options.signal?.removeEventListener('abort', abort)
+  }
+
+  const completeConfig = options.complete?.({ ...context, chunks: chunks.length })
+  if (completeConfig) return send<T>({ signal: options.signal, ...completeConfig })
+  return last ?? { data: undefined as T, fromCache: false }
+}
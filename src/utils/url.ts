@@ -0,0 +1,13 @@
+/**
+ * Parses a URL, resolving relative ones against the page URL in browsers.
+ *
+ * @param url - An absolute URL, or a relative one in browsers.
+ * @returns The parsed URL, or undefined when it is invalid or cannot be resolved.
+ */
+export const parseURL = (url: string) => {
+  try {
+    return new URL(url, typeof location !== 'undefined' ? location.href : undefined)
+  } catch {
+    return undefined
+  }
+}
@@ -4,19 +4,39 @@ import { TPrimitive } from '@/types'
 
 import {
   ApiInstance,
-  buildURL,
   type IApiInterceptor,
   type TApiConfig,
+  type TApiEventMap,
+  type TApiEventName,
   type TApiInstanceOptions,
+  type TApiInterceptors,
   type TApiResponse,
+  type TCacheMatcher,
+  type TEventStream,
+  type TEventStreamOptions,
   type THttpConfig,
   type TProgress,
 } from './api'
+import { isAbortError } from './api-error'
+import type { TDownloadOptions, TDownloadResult } from './download'
+import {
+  createEndpointClient,
+  endpointRequest,
+  type TEndpointArgs,
+  type TEndpointClient,
+  type TEndpointConfig,
+  type TEndpointResponse,
+  type TEndpoints,
+} from './endpoints'
+import type { TEventStreamStatus, TServerEvent } from './event-stream'
+import type { TOfflineQueueState } from './offline-queue'
+import type { TUploadOptions } from './upload'
 
 type TFetchState<T> = {
   data: T | null
   error: unknown
   isLoading: boolean
+  isStale: boolean
   cacheKey: string | null
 }
 
@@ -25,9 +45,23 @@ type TFetchResult<T> = TFetchState<T> & {
   setData: (data: T | null | ((prev: T | null) => T | null)) => void
 }
 
-type TMutationOptions = Pick<TApiConfig, 'cache' | 'headers' | 'method' | 'signal'> & {
+type TMutationOptions<TData = unknown> = Pick<
+  TApiConfig<TData>,
+  | 'cache'
+  | 'headers'
+  | 'method'
+  | 'signal'
+  | 'bodyType'
+  | 'serializers'
+  | 'paramsSerializer'
+  | 'pathParams'
+  | 'schema'
+  | 'schemaMode'
+> & {
   progress?: 'upload' | 'download'
   queryMutation?: boolean
+  /** Queue the mutation in the instance offline queue when offline or failing, replayed once back online */
+  offline?: boolean
 }
 
 type TMutationResult<TData, TRequest> = {
@@ -35,6 +69,10 @@ type TMutationResult<TData, TRequest> = {
   isLoading: boolean
   cacheKey: string | null
   progress: TProgress | null
+  /** Whether the last mutation was stored in the offline queue */
+  queued: boolean
+  /** State of the offline queue, `null` unless `offline` is enabled */
+  queue: TOfflineQueueState | null
 }
 
 type TInfiniteFetchOptions<T, TOffset extends TPrimitive = TPrimitive> = {
@@ -66,6 +104,60 @@ type TBatchResult<T extends unknown[]> = {
   cacheKeys: (string | null)[]
 }
 
+type TBatchOptions = {
+  /** Maximum number of requests of the batch in flight at once (default: all at once) */
+  concurrency?: number
+}
+
+type TEventStreamHookOptions<T> = Omit<TEventStreamOptions<T>, 'signal'> & {
+  /** Number of events kept in `events` (default: 50) */
+  historySize?: number
+}
+
+type TEventStreamState<T> = {
+  data: T | null
+  event: TServerEvent<T> | null
+  events: TServerEvent<T>[]
+  status: TEventStreamStatus
+  error: unknown
+}
+
+type TEventStreamResult<T> = TEventStreamState<T> & {
+  close: () => void
+  reconnect: () => void
+}
+
+type TUploadHookOptions<T> = Omit<TUploadOptions<T>, 'signal' | 'onUpload'>
+
+type TUploadResult<T> = {
+  upload: (file: Blob, options?: TUploadHookOptions<T>) => Promise<TApiResponse<T>>
+  abort: () => void
+  isUploading: boolean
+  progress: TProgress | null
+  error: unknown
+}
+
+type TEndpointMutationResult<E extends TEndpoints[string]> = {
+  mutate: (...args: TEndpointArgs<E>) => Promise<TApiResponse<TEndpointResponse<E>>>
+  isLoading: boolean
+  cacheKey: string | null
+}
+
+type TEndpointHooks<E extends TEndpoints> = {
+  /** Typed client calling the endpoints through the instance */
+  client: TEndpointClient<E>
+  /** `fetch` hooks of the `GET` endpoints */
+  fetch: {
+    [K in keyof E as E[K] extends { method: infer M } ? (M extends 'GET' ? K : never) : K]: (
+      ...args: [...TEndpointArgs<E[K]>, enabled?: boolean]
+    ) => TFetchResult<TEndpointResponse<E[K]>>
+  }
+  /** `mutation` hooks of every endpoint */
+  mutation: {
+    [K in keyof E]: (config?: TEndpointConfig<E[K]>) => TEndpointMutationResult<E[K]>
+  }
+}
+
 export interface IApiHooks {
   /**
    * React hook for data fetching with built-in loading, error, and refetch states.
@@ -79,6 +171,7 @@ export interface IApiHooks {
    * - `data`: fetched data or `null`
    * - `error`: any error encountered
    * - `isLoading`: request state
+   * - `isStale`: whether `data` is stale cache being revalidated in the background (updated without a loading state)
    * - `cacheKey`: identifier for caching this request
    * - `refetch()`: manually trigger a fresh fetch without changing dependencies
    * - `setData(data)`: manually update the fetched data state
@@ -97,7 +190,11 @@ export interface IApiHooks {
    * )
    * ```
    */
-  fetch: <T>(url: string, config?: Omit<THttpConfig, 'onUpload' | 'onDownload'>, enabled?: boolean) => TFetchResult<T>
+  fetch: <T>(
+    url: string,
+    config?: Omit<THttpConfig<T>, 'onUpload' | 'onDownload'>,
+    enabled?: boolean,
+  ) => TFetchResult<T>
 
   /**
    * React hook for making data mutations (e.g. POST, PUT, DELETE) with built-in
@@ -138,13 +235,14 @@ export interface IApiHooks {
    * {progress && <div>Uploaded: {progress.percentage}%</div>}
    * ```
    */
-  mutation: <TData, TRequest = void>(url: string, config?: TMutationOptions) => TMutationResult<TData, TRequest>
+  mutation: <TData, TRequest = void>(url: string, config?: TMutationOptions<TData>) => TMutationResult<TData, TRequest>
 
   /**
    * React hook for executing multiple API requests in parallel.
    *
    * @typeParam T - A tuple of expected data types for each request.
    * @param initialRequests - Optional array of URLs or full request configurations.
+   * @param options - Optional `concurrency` limiting how many requests run at once, results keep their order.
    *
    * @returns An object with:
    * - `mutate(overrideRequests)`: Function to trigger the batch execution.
@@ -166,7 +264,10 @@ export interface IApiHooks {
    * }
    * ```
    */
-  batch: <T extends unknown[]>(initialRequests?: { [K in keyof T]: string | TApiConfig }) => TBatchResult<T>
+  batch: <T extends unknown[]>(
+    initialRequests?: { [K in keyof T]: string | TApiConfig },
+    options?: TBatchOptions,
+  ) => TBatchResult<T>
 
   /**
    * React hook for infinite pagination fetching with custom offset logic.
@@ -210,10 +311,80 @@ export interface IApiHooks {
   infinite: <T, TOffset extends TPrimitive = TPrimitive>(
     url: string,
     options: TInfiniteFetchOptions<T, TOffset>,
-    config?: THttpConfig,
+    config?: THttpConfig<T>,
     enabled?: boolean,
   ) => TInfiniteFetchResult<T>
 
+  /**
+   * React hook subscribing to a Server-Sent Events endpoint through the instance (headers, interceptors and `auth`
+   * apply). The connection reconnects with backoff, resuming with `Last-Event-ID`, and closes on unmount.
+   *
+   * @typeParam T - Type of the parsed event data.
+   * @param url - The endpoint URL. Changing this value opens a new connection.
+   * @param options - Optional stream options (headers, params, parse, reconnect, historySize). Headers, params,
+   * `lastEventId` and `historySize` act as hook dependencies.
+   * @param enabled - Whether the connection should be opened.
+   * @returns Object containing:
+   * - `data`: data of the latest event
+   * - `event`: the latest event
+   * - `events`: the last `historySize` events
+   * - `status`: `connecting`, `open`, `reconnecting` or `closed`
+   * - `error`: the last connection error, cleared by the next event
+   * - `close()`: close the connection
+   * - `reconnect()`: open a new connection, resuming from the last event ID
+   *
+   * @example
+   * ```tsx
+   * const { data, status } = api.stream<OrderStatus>(`/orders/${id}/status`, undefined, !!id)
+   * ```
+   */
+  stream: <T = unknown>(url: string, options?: TEventStreamHookOptions<T>, enabled?: boolean) => TEventStreamResult<T>
+
+  /**
+   * React hook uploading files in chunks through the instance, with aggregate progress and per-chunk retries.
+   *
+   * @typeParam T - Type of the response data.
+   * @param url - The upload endpoint URL.
+   * @param options - Optional chunk size, concurrency, retry, resume `offset` and `complete` request.
+   * @returns Object containing:
+   * - `upload(file, options?)`: start an upload, the options are merged over the hook options
+   * - `abort()`: cancel the running upload
+   * - `isUploading`: whether an upload is running
+   * - `progress`: aggregate progress of the file
+   * - `error`: error of the last failed upload
+   *
+   * @example
+   * ```tsx
+   * const { upload, progress, abort } = api.upload<TVideo>('/videos/upload', { chunkSize: 8 * 1024 * 1024 })
+   *
+   * const onChange = (file: File) => upload(file, { uploadId: `${file.name}-${file.size}-${file.lastModified}` })
+   * {progress && <progress value={progress.percentage} max={100} />}
+   * ```
+   */
+  upload: <T>(url: string, options?: TUploadHookOptions<T>) => TUploadResult<T>
+
+  /**
+   * Builds a typed client and matching `fetch` / `mutation` hooks from a contract created with `defineEndpoints`.
+   * Call it once at module level, not inside components.
+   *
+   * @typeParam E - The endpoint definitions.
+   * @param endpoints - The endpoint contract.
+   * @returns Object containing:
+   * - `client`: typed request functions, `(input?, config?) => Promise<TApiResponse<Response>>`
+   * - `fetch`: `fetch` hooks of the `GET` endpoints, `(input?, config?, enabled?) => TFetchResult<Response>`
+   * - `mutation`: `mutation` hooks of every endpoint, `(config?) => { mutate(input?, config?), isLoading, cacheKey }`
+   *
+   * @example
+   * ```tsx
+   * export const products = api.endpoints(productEndpoints)
+   *
+   * const { data } = products.fetch.getProduct({ pathParams: { id } })
+   * const { mutate, isLoading } = products.mutation.updateProduct()
+   * await mutate({ pathParams: { id }, body: { name } })
+   * ```
+   */
+  endpoints: <E extends TEndpoints>(endpoints: E) => TEndpointHooks<E>
+
   // ----------- cache ops -----------
   /**
    * Retrieves a cached response by its key.
@@ -241,10 +412,61 @@ export interface IApiHooks {
    */
   clearCache: () => void
 
+  /**
+   * Invalidates every cache entry carrying one of the tags; mounted `fetch` hooks using them refetch.
+   * @param tags - Tags set through `cache.tags`.
+   */
+  invalidateTags: (tags: string[]) => Promise<void>
+
+  /**
+   * Invalidates every cache entry whose endpoint URL starts with the prefix or which matches the predicate;
+   * mounted `fetch` hooks using them refetch.
+   * @param matcher - URL prefix or `(entry, key) => boolean` predicate.
+   */
+  invalidateMatching: (matcher: TCacheMatcher) => Promise<void>
+
+  // ----------- streaming -----------
+
+  /**
+   * Iterates a newline-delimited JSON endpoint line by line as it arrives, e.g. for exports.
+   * @param url - The endpoint URL.
+   * @param config - Optional HTTP configuration, pass `signal` to stop the download.
+   */
+  ndjson: <T>(url: string, config?: Omit<THttpConfig, 'schema' | 'schemaMode'>) => AsyncGenerator<T>
+
+  /**
+   * Downloads a file with streamed progress and saves it under its `Content-Disposition` filename.
+   * @param url - The file URL.
+   * @param options - Optional HTTP configuration, fallback `filename`, `save` and `signal` to cancel the download.
+   */
+  download: (url: string, options?: TDownloadOptions) => Promise<TDownloadResult>
+
+  // ----------- events -----------
+
+  /**
+   * Subscribes to a request lifecycle event (`request:start`, `retry`, `cache:hit`, `cache:miss`, `response`, `error`
+   * or `abort`) or a `circuit:change` of the instance.
+   * @param event - The event name.
+   * @param listener - Called with the event payload.
+   * @returns A function removing the subscription.
+   */
+  on: <E extends TApiEventName>(event: E, listener: (payload: TApiEventMap[E]) => void) => () => void
+
   // ----------- interceptors -----------
 
   /**
-   * Registers custom request/response interceptors.
+   * Ordered request, response, and error interceptor pipelines.
+   *
+   * @example
+   * ```ts
+   * const handle = api.interceptors.request.use(config => config)
+   * handle.eject()
+   * ```
+   */
+  interceptors: TApiInterceptors
+
+  /**
+   * Registers custom request/response interceptors, replacing the ones from the previous call.
    *
    * @param interceptors - Object containing optional `request`, `response`, and `error` interceptors.
    *
@@ -262,6 +484,27 @@ export interface IApiHooks {
 
 const pendingRequests: Map<string, Promise<TApiResponse<unknown>>> = new Map()
 
+const runConcurrently = async <R>(tasks: (() => Promise<R>)[], concurrency: number) => {
+  const results: R[] = new Array(tasks.length)
+  let next = 0
+  let failed = false
+
+  const worker = async () => {
+    while (next < tasks.length && !failed) {
+      const index = next++
+      try {
+        results[index] = await tasks[index]()
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker))
+  return results
+}
+
 /**
  * Creates a new API instance with built-in React hooks (`fetch`, `mutation`, `infinite`)
  * for performing typed data fetching and mutations with progress tracking.
@@ -285,7 +528,7 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
 
   function useFetch<T>(
     url: string,
-    config?: Omit<THttpConfig, 'onUpload' | 'onDownload'>,
+    config?: Omit<THttpConfig<T>, 'onUpload' | 'onDownload'>,
     enabled: boolean = true,
   ): TFetchResult<T> {
     const abortControllerRef = useRef<AbortController | null>(null)
@@ -294,6 +537,7 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       data: null,
       error: null,
       isLoading: enabled,
+      isStale: false,
       cacheKey: null,
     })
 
@@ -307,15 +551,29 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       [
         config?.cache?.enabled,
         config?.cache?.revalidate,
+        config?.cache?.staleTime,
+        config?.cache?.gcTime,
+        config?.cache?.respectCacheControl,
+        JSON.stringify(config?.cache?.tags),
+        config?.schema,
+        config?.schemaMode,
         JSON.stringify(config?.headers),
         JSON.stringify(config?.params),
+        JSON.stringify(config?.pathParams),
+        config?.paramsSerializer,
+        JSON.stringify(config?.timeout),
+        JSON.stringify(config?.retry),
+        config?.priority,
+        config?.dedupe,
+        config?.responseType,
+        config?.skipAuth,
       ],
     )
 
     const fetchData = useCallback(
       async (refetch: boolean = false): Promise<TFetchState<T>> => {
         if (!enabled && !refetch) {
-          return { data: null, error: null, isLoading: false, cacheKey: null }
+          return { data: null, error: null, isLoading: false, isStale: false, cacheKey: null }
         }
 
         if (abortControllerRef.current) abortControllerRef.current.abort()
@@ -337,18 +595,20 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
             data: response.data,
             error: null,
             isLoading: false,
+            isStale: !!response.isStale,
             cacheKey: response.cacheKey ?? null,
           }
           setState(newState)
           return newState
         } catch (err) {
-          if (err instanceof Error && err.name === 'AbortError') {
+          if (isAbortError(err)) {
             return stateRef.current
           }
           const newState: TFetchState<T> = {
             data: null,
             error: err,
             isLoading: false,
+            isStale: false,
             cacheKey: null,
           }
           setState(newState)
@@ -365,6 +625,17 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       }
     }, [fetchData])
 
+    useEffect(() => {
+      if (!state.cacheKey) return
+      return instance.subscribeCache<T>(state.cacheKey, event => {
+        if (event.type === 'invalidate') {
+          fetchData(true)
+          return
+        }
+        setState(s => (s.data === event.data && !s.isStale ? s : { ...s, data: event.data as T, isStale: false }))
+      })
+    }, [state.cacheKey, fetchData])
+
     const setData = useCallback((updater: T | null | ((prev: T | null) => T | null)) => {
       setState(s => ({
         ...s,
@@ -375,12 +646,16 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
     return { ...state, refetch: () => fetchData(true), setData }
   }
 
-  function useBatch<T extends unknown[]>(initialRequests?: { [K in keyof T]: string | TApiConfig }): TBatchResult<T> {
+  function useBatch<T extends unknown[]>(
+    initialRequests?: { [K in keyof T]: string | TApiConfig },
+    options: TBatchOptions = {},
+  ): TBatchResult<T> {
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<unknown>(null)
     const [cacheKeys, setCacheKeys] = useState<(string | null)[]>([])
     const isMountedRef = useRef(true)
     const baseRequests = useRef(initialRequests)
+    const concurrency = options.concurrency ?? Infinity
 
     useEffect(() => {
       baseRequests.current = initialRequests
@@ -404,19 +679,19 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
         }
 
         try {
-          const promises = (targetRequests as (string | TApiConfig)[]).map(req => {
+          const tasks = (targetRequests as (string | TApiConfig)[]).map(req => () => {
             const config: TApiConfig = typeof req === 'string' ? { url: req, method: 'GET' } : req
             return instance.request(config)
           })
 
-          const results = await Promise.all(promises)
+          const results = await runConcurrently(tasks, concurrency)
           if (isMountedRef.current) {
             setCacheKeys(results.map(res => res.cacheKey ?? null))
             setIsLoading(false)
           }
           return results as unknown as TBatchResponse<T>
         } catch (err) {
-          if (err instanceof Error && err.name === 'AbortError') {
+          if (isAbortError(err)) {
             if (isMountedRef.current) setIsLoading(false)
             return new Promise<TBatchResponse<T>>(() => {})
           }
@@ -427,7 +702,7 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
           throw err
         }
       },
-      [instance],
+      [instance, concurrency],
     )
 
     return {
@@ -440,15 +715,17 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
 
   function useMutation<TData, TRequest = void>(
     url: string,
-    config?: TMutationOptions,
+    config?: TMutationOptions<TData>,
   ): TMutationResult<TData, TRequest> {
     const isMountedRef = useRef(true)
 
-    const [state, setState] = useState<Omit<TMutationResult<TData, TRequest>, 'mutate'>>({
+    const [state, setState] = useState<Omit<TMutationResult<TData, TRequest>, 'mutate' | 'queue'>>({
       isLoading: false,
       cacheKey: null,
       progress: null,
+      queued: false,
     })
+    const [queue, setQueue] = useState<TOfflineQueueState | null>(null)
 
     const stableConfig = useMemo(
       () => config,
@@ -456,9 +733,17 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
         config?.method,
         config?.cache?.enabled,
         config?.cache?.revalidate,
+        config?.cache?.staleTime,
+        config?.cache?.gcTime,
+        config?.cache?.respectCacheControl,
+        JSON.stringify(config?.cache?.tags),
+        config?.schemaMode,
         config?.queryMutation,
         config?.progress,
+        config?.bodyType,
+        config?.offline,
         JSON.stringify(config?.headers ?? {}),
+        JSON.stringify(config?.pathParams),
       ],
     )
 
@@ -469,6 +754,15 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       }
     }, [])
 
+    useEffect(() => {
+      if (!stableConfig?.offline) {
+        setQueue(null)
+        return
+      }
+      setQueue(instance.offline.getState())
+      return instance.offline.subscribe(setQueue)
+    }, [stableConfig?.offline])
+
     const mutate = useCallback(
       async (request?: TRequest): Promise<TApiResponse<TData>> => {
         if (isMountedRef.current) {
@@ -502,11 +796,15 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
                 : undefined,
             })
           } else {
-            requestPromise = instance.request<TData>({
+            const send = stableConfig?.offline
+              ? <T>(config: TApiConfig<T>) => instance.offline.submit<T>(config)
+              : <T>(config: TApiConfig<T>) => instance.request<T>(config)
+            requestPromise = send<TData>({
               ...stableConfig,
-              url: config?.queryMutation ? buildURL(url, request as THttpConfig['params']) : url,
+              url,
+              params: config?.queryMutation ? (request as THttpConfig['params']) : undefined,
               method,
-              body: request ? (request as globalThis.BodyInit) : undefined,
+              body: request ? (request as TApiConfig['body']) : undefined,
               signal: stableConfig?.signal,
               onUpload: shouldTrackUpload
                 ? progress => {
@@ -526,19 +824,20 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
               isLoading: false,
               cacheKey: response.cacheKey ?? null,
               progress: null,
+              queued: !!response.queued,
             })
           }
 
           return response
         } catch (err) {
-          if (err instanceof Error && err.name === 'AbortError') {
+          if (isAbortError(err)) {
             if (isMountedRef.current) {
               setState(s => ({ ...s, isLoading: false, progress: null }))
             }
             return new Promise<TApiResponse<TData>>(() => {})
           }
           if (isMountedRef.current) {
-            setState({ isLoading: false, cacheKey: null, progress: null })
+            setState({ isLoading: false, cacheKey: null, progress: null, queued: false })
           }
           throw err
         } finally {
@@ -548,13 +847,13 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       [url, stableConfig],
     )
 
-    return { mutate, ...state }
+    return { mutate, ...state, queue }
   }
 
   function useInfiniteFetch<T, TOffset extends TPrimitive = TPrimitive>(
     url: string,
     options: TInfiniteFetchOptions<T, TOffset>,
-    config?: Omit<THttpConfig, 'onUpload' | 'onDownload'>,
+    config?: Omit<THttpConfig<T>, 'onUpload' | 'onDownload'>,
     enabled: boolean = true,
   ): TInfiniteFetchResult<T> {
     const { initialOffset, offsetKey, setOffset } = options
@@ -573,8 +872,22 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
       [
         config?.cache?.enabled,
         config?.cache?.revalidate,
+        config?.cache?.staleTime,
+        config?.cache?.gcTime,
+        config?.cache?.respectCacheControl,
+        JSON.stringify(config?.cache?.tags),
+        config?.schema,
+        config?.schemaMode,
         JSON.stringify(config?.headers),
         JSON.stringify(config?.params),
+        JSON.stringify(config?.pathParams),
+        config?.paramsSerializer,
+        JSON.stringify(config?.timeout),
+        JSON.stringify(config?.retry),
+        config?.priority,
+        config?.dedupe,
+        config?.responseType,
+        config?.skipAuth,
       ],
     )
 
@@ -648,7 +961,7 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
 
           setError(null)
         } catch (err) {
-          if (!(err instanceof Error && err.name === 'AbortError')) {
+          if (!isAbortError(err)) {
             setError(err)
           }
         } finally {
@@ -710,20 +1023,266 @@ export default function createApi(options: TApiInstanceOptions = {}): IApiHooks
     }
   }
 
+  function useEventStream<T = unknown>(
+    url: string,
+    options?: TEventStreamHookOptions<T>,
+    enabled: boolean = true,
+  ): TEventStreamResult<T> {
+    const streamRef = useRef<TEventStream | null>(null)
+    const resumeIdRef = useRef<string | undefined>(undefined)
+    const [connection, setConnection] = useState(0)
+
+    const [state, setState] = useState<TEventStreamState<T>>({
+      data: null,
+      event: null,
+      events: [],
+      status: enabled ? 'connecting' : 'closed',
+      error: null,
+    })
+
+    const stableOptions = useMemo(
+      () => options,
+      [
+        options?.lastEventId,
+        options?.historySize,
+        options?.skipAuth,
+        JSON.stringify(options?.reconnect),
+        JSON.stringify(options?.headers),
+        JSON.stringify(options?.params),
+        JSON.stringify(options?.pathParams),
+      ],
+    )
+
+    useEffect(() => {
+      if (!enabled) return
+
+      const historySize = stableOptions?.historySize ?? 50
+      // callbacks of a replaced connection must not overwrite the state of the new one
+      let active = true
+      const stream = instance.eventStream<T>(url, {
+        ...stableOptions,
+        lastEventId: resumeIdRef.current ?? stableOptions?.lastEventId,
+        onEvent: event => {
+          stableOptions?.onEvent?.(event)
+          if (!active) return
+          setState(s => ({
+            ...s,
+            data: event.data,
+            event,
+            events: [...s.events, event].slice(-historySize),
+            error: null,
+          }))
+        },
+        onError: error => {
+          stableOptions?.onError?.(error)
+          if (!active) return
+          setState(s => ({ ...s, error }))
+        },
+        onStatusChange: status => {
+          stableOptions?.onStatusChange?.(status)
+          if (!active) return
+          setState(s => (s.status === status ? s : { ...s, status }))
+        },
+      })
+      resumeIdRef.current = undefined
+      streamRef.current = stream
+
+      return () => {
+        active = false
+        stream.close()
+        setState(s => (s.status === 'closed' ? s : { ...s, status: 'closed' }))
+      }
+    }, [url, enabled, stableOptions, connection])
+
+    const close = useCallback(() => streamRef.current?.close(), [])
+
+    const reconnect = useCallback(() => {
+      resumeIdRef.current = streamRef.current?.lastEventId
+      streamRef.current?.close()
+      setConnection(c => c + 1)
+    }, [])
+
+    return { ...state, close, reconnect }
+  }
+
+  function useUpload<T>(url: string, options?: TUploadHookOptions<T>): TUploadResult<T> {
+    const isMountedRef = useRef(true)
+    const controllerRef = useRef<AbortController | null>(null)
+    const optionsRef = useRef(options)
+    const [state, setState] = useState<Omit<TUploadResult<T>, 'upload' | 'abort'>>({
+      isUploading: false,
+      progress: null,
+      error: null,
+    })
+
+    useEffect(() => {
+      optionsRef.current = options
+    }, [options])
+
+    useEffect(() => {
+      isMountedRef.current = true
+      return () => {
+        isMountedRef.current = false
+        controllerRef.current?.abort()
+      }
+    }, [])
+
+    const upload = useCallback(
+      async (file: Blob, overrides?: TUploadHookOptions<T>): Promise<TApiResponse<T>> => {
+        controllerRef.current?.abort()
+        const controller = new AbortController()
+        controllerRef.current = controller
+        if (isMountedRef.current) setState({ isUploading: true, progress: null, error: null })
+
+        try {
+          const response = await instance.upload<T>(url, file, {
+            ...optionsRef.current,
+            ...overrides,
+            signal: controller.signal,
+            onUpload: progress => {
+              if (isMountedRef.current && controllerRef.current === controller) setState(s => ({ ...s, progress }))
+            },
+          })
+          if (isMountedRef.current && controllerRef.current === controller) {
+            setState(s => ({ ...s, isUploading: false }))
+          }
+          return response
+        } catch (err) {
+          const isCurrent = isMountedRef.current && controllerRef.current === controller
+          if (isAbortError(err)) {
+            if (isCurrent) setState(s => ({ ...s, isUploading: false }))
+            return new Promise<TApiResponse<T>>(() => {})
+          }
+          if (isCurrent) setState(s => ({ ...s, isUploading: false, error: err }))
+          throw err
+        } finally {
+          if (controllerRef.current === controller) controllerRef.current = null
+        }
+      },
+      [url],
+    )
+
+    const abort = useCallback(() => controllerRef.current?.abort(), [])
+
+    return { upload, abort, ...state }
+  }
+
+  function useEndpointMutation<TData>(
+    call: (input?: unknown, config?: THttpConfig<TData>) => Promise<TApiResponse<TData>>,
+    config?: THttpConfig<TData>,
+  ) {
+    const isMountedRef = useRef(true)
+    const [state, setState] = useState<{ isLoading: boolean; cacheKey: string | null }>({
+      isLoading: false,
+      cacheKey: null,
+    })
+
+    const stableConfig = useMemo(
+      () => config,
+      [config?.bodyType, config?.schemaMode, JSON.stringify(config?.headers ?? {})],
+    )
+
+    useEffect(() => {
+      isMountedRef.current = true
+      return () => {
+        isMountedRef.current = false
+      }
+    }, [])
+
+    const mutate = useCallback(
+      async (input?: unknown, callConfig?: THttpConfig<TData>): Promise<TApiResponse<TData>> => {
+        if (isMountedRef.current) {
+          setState(s => ({ ...s, isLoading: true }))
+        }
+
+        try {
+          const response = await call(input, { ...stableConfig, ...callConfig })
+          if (isMountedRef.current) {
+            setState({ isLoading: false, cacheKey: response.cacheKey ?? null })
+          }
+          return response
+        } catch (err) {
+          if (isAbortError(err)) {
+            if (isMountedRef.current) {
+              setState(s => ({ ...s, isLoading: false }))
+            }
+            return new Promise<TApiResponse<TData>>(() => {})
+          }
+          if (isMountedRef.current) {
+            setState({ isLoading: false, cacheKey: null })
+          }
+          throw err
+        }
+      },
+      [call, stableConfig],
+    )
+
+    return { mutate, ...state }
+  }
+
+  function createEndpointHooks<E extends TEndpoints>(endpoints: E): TEndpointHooks<E> {
+    const client = createEndpointClient(instance, endpoints)
+    const calls = client as unknown as Record<
+      string,
+      (input?: unknown, config?: THttpConfig) => Promise<TApiResponse<unknown>>
+    >
+
+    const fetch = Object.fromEntries(
+      Object.entries(endpoints)
+        .filter(([, endpoint]) => (endpoint.method ?? 'GET') === 'GET')
+        .map(([name, endpoint]) => [
+          name,
+          function useEndpointFetch(
+            input?: { pathParams?: Record<string, TPrimitive>; query?: THttpConfig['params'] },
+            config?: Omit<THttpConfig, 'params' | 'onUpload' | 'onDownload'>,
+            enabled?: boolean,
+          ) {
+            const { url, params, pathParams, schema } = endpointRequest(endpoint, input, config)
+            return useFetch(url, { ...config, params, pathParams, schema }, enabled)
+          },
+        ]),
+    )
+
+    const mutation = Object.fromEntries(
+      Object.keys(endpoints).map(name => [
+        name,
+        function useEndpoint(config?: THttpConfig) {
+          return useEndpointMutation(calls[name], config)
+        },
+      ]),
+    )
+
+    return { client, fetch, mutation } as unknown as TEndpointHooks<E>
+  }
+
   return {
     // ----------- React hooks API -----------
     fetch: useFetch,
     batch: useBatch,
     mutation: useMutation,
     infinite: useInfiniteFetch,
+    stream: useEventStream,
+    upload: useUpload,
+    endpoints: createEndpointHooks,
 
     // ----------- cache ops -----------
     getCache: <T>(key: string) => instance.getCache<T>(key),
     setCache: <T>(key: string, data: T, ttl?: number) => instance.setCache<T>(key, data, ttl),
     removeCache: (key: string) => instance.removeCache(key),
     clearCache: () => instance.clearCache(),
+    invalidateTags: (tags: string[]) => instance.invalidateTags(tags),
+    invalidateMatching: (matcher: TCacheMatcher) => instance.invalidateMatching(matcher),
+
+    // ----------- streaming -----------
+    ndjson: <T>(url: string, config?: Omit<THttpConfig, 'schema' | 'schemaMode'>) => instance.ndjson<T>(url, config),
+    download: (url: string, options?: TDownloadOptions) => instance.download(url, options),
+
+    // ----------- events -----------
+    on: <E extends TApiEventName>(event: E, listener: (payload: TApiEventMap[E]) => void) =>
+      instance.on(event, listener),
 
     // ----------- interceptors -----------
+    interceptors: instance.interceptors,
     setInterceptors: (interceptors: IApiInterceptor) => instance.setInterceptors(interceptors),
   }
 }